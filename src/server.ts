@@ -5,53 +5,586 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import { TextEdit } from 'vscode-languageserver-protocol';
 import { z } from 'zod';
+import { CodeActionManager } from './services/CodeActionManager.js';
+import { CodeNavigator } from './services/CodeNavigator.js';
 import { DocumentManager } from './services/DocumentManager.js';
 import { EditOperationManager } from './services/EditOperationManager.js';
+import { FileOperationManager } from './services/FileOperationManager.js';
 import { LSPManagerImpl } from './services/LSPManager.js';
 import { SessionManager } from './services/SessionManager.js';
-import { BaseError } from './types/errors.js';
+import { TargetResolver } from './services/TargetResolver.js';
+import { Validator } from './services/Validator.js';
+import { WorkspaceManager } from './services/WorkspaceManager.js';
+import { EditResult, EditSession, SessionChangeEvent } from './types/editor.js';
+import { BaseError, SessionError } from './types/errors.js';
 import { LocalFileSystemManager } from './utils/fs.js';
 import { EnhancedLogger, Logger, LogLevel } from './utils/logger.js';
+import { searchText } from './utils/search.js';
 
 // Validation schemas for tool arguments
+const DiagnosticPolicySchema = z.enum(['allow', 'warn', 'rejectNewErrors']);
+
 const StartSessionArgsSchema = z.object({
   filePath: z.string(),
   languageId: z.string(),
+  diagnosticPolicy: DiagnosticPolicySchema.optional(),
+  organizeImportsOnSave: z.boolean().optional(),
+});
+
+const PositionSchema = z.object({
+  line: z.number(),
+  character: z.number(),
+});
+
+const RangeSchema = z.object({
+  start: PositionSchema,
+  end: PositionSchema,
+});
+
+const TextAnchorSchema = z.object({
+  text: z.string(),
+  before: z.string().optional(),
+  after: z.string().optional(),
+  occurrence: z.number().int().positive().optional(),
+});
+
+const ImportSpecSchema = z.object({
+  module: z.string(),
+  default: z.string().optional(),
+  namespace: z.string().optional(),
+  named: z.array(z.string()).optional(),
+  typeOnly: z.boolean().optional(),
+});
+
+const EditOperationSchema = z.object({
+  type: z.enum([
+    'insert',
+    'delete',
+    'replace',
+    'move',
+    'wrap',
+    'addImport',
+    'addProp',
+    'addHook',
+  ]),
+  content: z.string().optional(),
+  position: PositionSchema.optional(),
+  range: RangeSchema.optional(),
+  anchor: TextAnchorSchema.optional(),
+  target: z
+    .object({
+      type: z.enum([
+        'symbol',
+        'component',
+        'function',
+        'class',
+        'interface',
+        'import',
+        'range',
+      ]),
+      name: z.string().optional(),
+      range: RangeSchema.optional(),
+      properties: z.record(z.unknown()).optional(),
+    })
+    .optional(),
+  wrapper: z
+    .object({
+      before: z.string(),
+      after: z.string(),
+    })
+    .optional(),
+  importSpec: ImportSpecSchema.optional(),
+  prop: z
+    .object({
+      name: z.string(),
+      type: z.string(),
+      optional: z.boolean().optional(),
+      defaultValue: z.string().optional(),
+    })
+    .optional(),
 });
 
-const EditCodeArgsSchema = z.object({
+const EditCodeArgsSchema = z
+  .object({
+    sessionId: z.string(),
+    operation: EditOperationSchema.optional(),
+    operations: z.array(EditOperationSchema).optional(),
+    documentVersion: z.number().optional(),
+    dryRun: z.boolean().optional(),
+    diagnosticPolicy: DiagnosticPolicySchema.optional(),
+    diagnosticsMode: z.enum(['full', 'delta']).optional(),
+  })
+  .refine((args) => !!args.operation !== !!args.operations, {
+    message: 'Provide either operation or operations',
+  });
+
+const FormatDocumentArgsSchema = z.object({
   sessionId: z.string(),
-  operation: z.object({
-    type: z.enum(['insert', 'delete', 'replace']),
-    content: z.string().optional(),
-    position: z
-      .object({
-        line: z.number(),
-        character: z.number(),
-      })
-      .optional(),
-    range: z
-      .object({
-        start: z.object({
-          line: z.number(),
-          character: z.number(),
-        }),
-        end: z.object({
-          line: z.number(),
-          character: z.number(),
-        }),
-      })
-      .optional(),
-  }),
+  documentVersion: z.number().optional(),
+  dryRun: z.boolean().optional(),
+  diagnosticPolicy: DiagnosticPolicySchema.optional(),
+  diagnosticsMode: z.enum(['full', 'delta']).optional(),
+  tabSize: z.number().int().positive().optional(),
+  insertSpaces: z.boolean().optional(),
+  trimTrailingWhitespace: z.boolean().optional(),
+  insertFinalNewline: z.boolean().optional(),
+});
+
+const FormatRangeArgsSchema = FormatDocumentArgsSchema.extend({
+  range: RangeSchema,
+});
+
+const SymbolQueryArgsSchema = z.object({
+  sessionId: z.string(),
+  position: PositionSchema.optional(),
+  anchor: TextAnchorSchema.optional(),
+});
+
+const GotoDefinitionArgsSchema = SymbolQueryArgsSchema.extend({
+  contextLines: z.number().int().nonnegative().optional(),
+});
+
+const FindReferencesArgsSchema = SymbolQueryArgsSchema.extend({
+  includeDeclaration: z.boolean().optional(),
+  contextLines: z.number().int().nonnegative().optional(),
+  maxResults: z.number().int().positive().optional(),
+});
+
+const CallHierarchyArgsSchema = SymbolQueryArgsSchema.extend({
+  direction: z.enum(['incoming', 'outgoing']),
+  depth: z.number().int().positive().optional(),
+});
+
+const TypeHierarchyArgsSchema = SymbolQueryArgsSchema.extend({
+  direction: z.enum(['supertypes', 'subtypes']),
+  depth: z.number().int().positive().optional(),
+});
+
+const GetInlayHintsArgsSchema = z.object({
+  sessionId: z.string(),
+  startLine: z.number().int().optional(),
+  endLine: z.number().int().optional(),
+});
+
+const GetOutlineArgsSchema = z.object({
+  sessionId: z.string(),
+  depth: z.number().int().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+});
+
+const SearchSymbolsArgsSchema = z.object({
+  query: z.string().min(1),
+  languageId: z.string().optional(),
+  kinds: z.array(z.string()).optional(),
+  maxResults: z.number().int().positive().optional(),
+  openResult: z.number().int().positive().optional(),
+});
+
+const SearchTextArgsSchema = z.object({
+  pattern: z.string().min(1),
+  isRegex: z.boolean().optional(),
+  caseSensitive: z.boolean().optional(),
+  directory: z.string().optional(),
+  include: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).optional(),
+  useGitignore: z.boolean().optional(),
+  contextLines: z.number().int().nonnegative().optional(),
+  maxResults: z.number().int().positive().optional(),
+});
+
+const GetCompletionsArgsSchema = SymbolQueryArgsSchema.extend({
+  maxResults: z.number().int().positive().optional(),
+  resolve: z.boolean().optional(),
+});
+
+const AcceptCompletionArgsSchema = SymbolQueryArgsSchema.extend({
+  label: z.string(),
+  detail: z.string().optional(),
+  documentVersion: z.number().optional(),
+  diagnosticPolicy: DiagnosticPolicySchema.optional(),
+  diagnosticsMode: z.enum(['full', 'delta']).optional(),
+});
+
+const RenameSymbolArgsSchema = SymbolQueryArgsSchema.extend({
+  newName: z.string(),
+  dryRun: z.boolean().optional(),
+  documentVersion: z.number().optional(),
+  diagnosticPolicy: DiagnosticPolicySchema.optional(),
+  diagnosticsMode: z.enum(['full', 'delta']).optional(),
+});
+
+const OrganizeImportsArgsSchema = z.object({
+  sessionId: z.string(),
+  removeUnused: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+  documentVersion: z.number().optional(),
+  diagnosticPolicy: DiagnosticPolicySchema.optional(),
+  diagnosticsMode: z.enum(['full', 'delta']).optional(),
+});
+
+const CodeActionQueryArgsSchema = z.object({
+  sessionId: z.string(),
+  range: RangeSchema.optional(),
+  anchor: TextAnchorSchema.optional(),
+  only: z.array(z.string()).optional(),
+});
+
+const ApplyCodeActionArgsSchema = CodeActionQueryArgsSchema.extend({
+  title: z.string(),
+  documentVersion: z.number().optional(),
+  diagnosticPolicy: DiagnosticPolicySchema.optional(),
+  diagnosticsMode: z.enum(['full', 'delta']).optional(),
 });
 
 const ValidateCodeArgsSchema = z.object({
   sessionId: z.string(),
 });
 
+const HistoryArgsSchema = z.object({
+  sessionId: z.string(),
+});
+
+const SessionInfoArgsSchema = z.object({
+  sessionId: z.string(),
+});
+
+const GetDocumentArgsSchema = z.object({
+  sessionId: z.string(),
+  startLine: z.number().int().optional(),
+  endLine: z.number().int().optional(),
+  lineNumbers: z.boolean().optional(),
+});
+
+const SaveSessionArgsSchema = z.object({
+  sessionId: z.string(),
+  mode: z.enum(['safe', 'force', 'merge']).optional(),
+});
+
+const StartWorkspaceArgsSchema = z.object({
+  filePaths: z.array(z.string()).min(1),
+  languageId: z.string(),
+  diagnosticPolicy: DiagnosticPolicySchema.optional(),
+});
+
+const EditWorkspaceArgsSchema = z.object({
+  workspaceId: z.string(),
+  files: z
+    .array(
+      z.object({
+        filePath: z.string(),
+        operations: z.array(EditOperationSchema).min(1),
+        documentVersion: z.number().optional(),
+      })
+    )
+    .min(1),
+  dryRun: z.boolean().optional(),
+  diagnosticPolicy: DiagnosticPolicySchema.optional(),
+  diagnosticsMode: z.enum(['full', 'delta']).optional(),
+});
+
+const WorkspaceArgsSchema = z.object({
+  workspaceId: z.string(),
+});
+
+const SaveWorkspaceArgsSchema = WorkspaceArgsSchema.extend({
+  mode: z.enum(['safe', 'force', 'merge']).optional(),
+});
+
+const CreateFileArgsSchema = z.object({
+  filePath: z.string(),
+  languageId: z.string(),
+  content: z.string().optional(),
+  diagnosticPolicy: DiagnosticPolicySchema.optional(),
+});
+
+const DeleteFileArgsSchema = z.object({
+  sessionId: z.string(),
+});
+
+const RenameFileArgsSchema = z.object({
+  sessionId: z.string(),
+  newPath: z.string(),
+  diagnosticPolicy: DiagnosticPolicySchema.optional(),
+  diagnosticsMode: z.enum(['full', 'delta']).optional(),
+});
+
+// JSON schemas shared by tool arguments
+const diagnosticPolicyJsonSchema = {
+  type: 'string',
+  enum: ['allow', 'warn', 'rejectNewErrors'],
+  description:
+    'How edits that introduce new errors are handled: allow applies them, warn applies them but reports failure, rejectNewErrors reverts them and returns only the new problems',
+};
+
+const positionJsonSchema = {
+  type: 'object',
+  properties: {
+    line: { type: 'number' },
+    character: { type: 'number' },
+  },
+};
+
+const rangeJsonSchema = {
+  type: 'object',
+  properties: {
+    start: positionJsonSchema,
+    end: positionJsonSchema,
+  },
+};
+
+const textAnchorJsonSchema = {
+  type: 'object',
+  properties: {
+    text: {
+      type: 'string',
+      description: 'Exact text to target',
+    },
+    before: {
+      type: 'string',
+      description: 'Text expected right before the target',
+    },
+    after: {
+      type: 'string',
+      description: 'Text expected right after the target',
+    },
+    occurrence: {
+      type: 'number',
+      description: '1-based occurrence to pick when several locations match',
+    },
+  },
+  required: ['text'],
+};
+
+// Arguments shared by the tools that look up a symbol
+const symbolQueryJsonProperties = {
+  sessionId: {
+    type: 'string',
+    description: 'ID of the editing session',
+  },
+  position: {
+    ...positionJsonSchema,
+    description: 'Position of the symbol (0-based line and character)',
+  },
+  anchor: {
+    ...textAnchorJsonSchema,
+    description:
+      'Locates the symbol by text instead of a position: the symbol at the start of the matched text is used',
+  },
+};
+
+// Arguments shared by get_completions and accept_completion
+const completionQueryJsonProperties = {
+  ...symbolQueryJsonProperties,
+  position: {
+    ...positionJsonSchema,
+    description: 'Position to complete at (0-based line and character)',
+  },
+  anchor: {
+    ...textAnchorJsonSchema,
+    description:
+      'Locates the completion position by text instead: completes at the end of the matched text',
+  },
+};
+
+// Arguments shared by list_code_actions and apply_code_action
+const codeActionQueryJsonProperties = {
+  sessionId: {
+    type: 'string',
+    description: 'ID of the editing session',
+  },
+  range: {
+    ...rangeJsonSchema,
+    description: 'Range to get actions for (0-based lines and characters)',
+  },
+  anchor: {
+    ...textAnchorJsonSchema,
+    description: 'Locates the range by text instead: the matched text is used',
+  },
+  only: {
+    type: 'array',
+    items: { type: 'string' },
+    description:
+      'Kinds of actions to include, e.g. quickfix, refactor or source.organizeImports; sub-kinds match too (default: all)',
+  },
+};
+
+const contextLinesJsonSchema = {
+  type: 'number',
+  description: 'Lines of context around each excerpt (default: 1)',
+};
+
+// Arguments shared by format_document and format_range
+const formatJsonProperties = {
+  sessionId: {
+    type: 'string',
+    description: 'ID of the editing session',
+  },
+  documentVersion: {
+    type: 'number',
+    description:
+      'Document version the formatting is requested for; rejected if the session has moved on',
+  },
+  dryRun: {
+    type: 'boolean',
+    description:
+      'Preview the formatting without applying it: returns a unified diff',
+  },
+  diagnosticPolicy: {
+    ...diagnosticPolicyJsonSchema,
+    description: `${diagnosticPolicyJsonSchema.description}. Overrides the session's policy`,
+  },
+  diagnosticsMode: {
+    type: 'string',
+    enum: ['full', 'delta'],
+    description: 'How much diagnostic detail to report, as for edit_code',
+  },
+  tabSize: {
+    type: 'number',
+    description: "Indentation width, overriding the project's setting",
+  },
+  insertSpaces: {
+    type: 'boolean',
+    description:
+      "Indent with spaces rather than tabs, overriding the project's setting",
+  },
+  trimTrailingWhitespace: {
+    type: 'boolean',
+    description: 'Remove whitespace at the end of lines',
+  },
+  insertFinalNewline: {
+    type: 'boolean',
+    description: 'End the document with a newline',
+  },
+};
+
+const editOperationJsonSchema = {
+  type: 'object',
+  properties: {
+    type: {
+      type: 'string',
+      enum: [
+        'insert',
+        'delete',
+        'replace',
+        'move',
+        'wrap',
+        'addImport',
+        'addProp',
+        'addHook',
+      ],
+      description:
+        'move relocates the range/anchor/target to position; wrap surrounds it with wrapper; addImport adds or merges importSpec; addProp adds prop to the target component or interface; addHook inserts content at the start of the target component',
+    },
+    content: {
+      type: 'string',
+    },
+    position: positionJsonSchema,
+    range: rangeJsonSchema,
+    anchor: {
+      ...textAnchorJsonSchema,
+      description:
+        'Targets existing text instead of a range. replace/delete act on the matched text, insert adds content right after it',
+    },
+    target: {
+      type: 'object',
+      description:
+        'Targets a code element by name instead of a range, resolved through the language server. replace/delete act on the element, insert adds content right after it',
+      properties: {
+        type: {
+          type: 'string',
+          enum: [
+            'symbol',
+            'component',
+            'function',
+            'class',
+            'interface',
+            'import',
+            'range',
+          ],
+        },
+        name: {
+          type: 'string',
+          description:
+            'Element name or dotted path (e.g. Button.render); for imports, the module specifier or an imported name',
+        },
+        range: rangeJsonSchema,
+        properties: {
+          type: 'object',
+          properties: {
+            part: {
+              type: 'string',
+              enum: ['declaration', 'body', 'name'],
+              description:
+                'Part of the element to target (default: declaration)',
+            },
+            occurrence: {
+              type: 'number',
+              description:
+                '1-based occurrence to pick when several elements match',
+            },
+          },
+        },
+      },
+      required: ['type'],
+    },
+    wrapper: {
+      type: 'object',
+      description: 'Text placed around the target of a wrap operation',
+      properties: {
+        before: { type: 'string' },
+        after: { type: 'string' },
+      },
+      required: ['before', 'after'],
+    },
+    importSpec: {
+      type: 'object',
+      description:
+        'Import to add; merged into an existing import from the same module when possible',
+      properties: {
+        module: { type: 'string' },
+        default: { type: 'string' },
+        namespace: { type: 'string' },
+        named: { type: 'array', items: { type: 'string' } },
+        typeOnly: { type: 'boolean' },
+      },
+      required: ['module'],
+    },
+    prop: {
+      type: 'object',
+      description: 'Prop to add for addProp operations',
+      properties: {
+        name: { type: 'string' },
+        type: { type: 'string' },
+        optional: { type: 'boolean' },
+        defaultValue: { type: 'string' },
+      },
+      required: ['name', 'type'],
+    },
+  },
+  required: ['type'],
+};
+
+// Session resources: session://<id>/document and session://<id>/diagnostics
+type SessionResourceKind = 'document' | 'diagnostics';
+
+const SESSION_RESOURCE_PATTERN =
+  /^session:\/\/([^/]+)\/(document|diagnostics)$/;
+
+function getSessionResourceUri(
+  sessionId: string,
+  kind: SessionResourceKind
+): string {
+  return `session://${sessionId}/${kind}`;
+}
+
 export class HeadlessEditorServer {
   private readonly server: Server;
   private readonly fs: LocalFileSystemManager;
@@ -59,8 +592,13 @@ export class HeadlessEditorServer {
   private readonly documentManager: DocumentManager;
   private readonly sessionManager: SessionManager;
   private readonly editManager: EditOperationManager;
+  private readonly codeNavigator: CodeNavigator;
+  private readonly codeActionManager: CodeActionManager;
+  private readonly workspaceManager: WorkspaceManager;
+  private readonly fileOperationManager: FileOperationManager;
   private readonly logger: Logger;
   private readonly allowedDirectories: string[];
+  private readonly resourceSubscriptions: Set<string> = new Set();
 
   constructor(allowedDirectories: string[]) {
     // Normalize and validate allowed directories
@@ -119,11 +657,45 @@ export class HeadlessEditorServer {
       this.logger,
       this.allowedDirectories
     );
+    const targetResolver = new TargetResolver(this.lspManager, this.logger);
     this.editManager = new EditOperationManager(
       this.sessionManager,
       this.lspManager,
+      targetResolver,
+      new Validator(this.lspManager, this.logger),
+      this.fs,
+      this.logger
+    );
+    this.codeNavigator = new CodeNavigator(
+      this.sessionManager,
+      this.lspManager,
+      targetResolver,
+      this.fs,
+      this.logger
+    );
+    this.codeActionManager = new CodeActionManager(
+      this.sessionManager,
+      this.lspManager,
+      this.editManager,
+      targetResolver,
       this.logger
     );
+    this.workspaceManager = new WorkspaceManager(
+      this.sessionManager,
+      this.editManager,
+      this.lspManager,
+      this.fs,
+      this.logger,
+      this.allowedDirectories
+    );
+    this.fileOperationManager = new FileOperationManager(
+      this.sessionManager,
+      this.editManager,
+      this.lspManager,
+      this.fs,
+      this.logger,
+      this.allowedDirectories
+    );
 
     this.server = new Server(
       {
@@ -133,11 +705,16 @@ export class HeadlessEditorServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
         },
       }
     );
 
     this.setupRequestHandlers();
+    this.setupResourceHandlers();
     this.setupErrorHandler();
   }
 
@@ -160,13 +737,23 @@ export class HeadlessEditorServer {
                 description:
                   'Language identifier (e.g., typescript, javascript, python)',
               },
+              diagnosticPolicy: {
+                ...diagnosticPolicyJsonSchema,
+                description: `${diagnosticPolicyJsonSchema.description} (default: warn)`,
+              },
+              organizeImportsOnSave: {
+                type: 'boolean',
+                description:
+                  'Sort, merge and remove unused imports before each save; unlike organize_imports, other unused code is kept (default: false)',
+              },
             },
             required: ['filePath', 'languageId'],
           },
         },
         {
           name: 'edit_code',
-          description: 'Apply an edit operation to the code',
+          description:
+            'Apply an edit operation, or an atomic batch of operations, to the code',
           inputSchema: {
             type: 'object',
             properties: {
@@ -174,52 +761,180 @@ export class HeadlessEditorServer {
                 type: 'string',
                 description: 'ID of the editing session',
               },
-              operation: {
-                type: 'object',
-                properties: {
-                  type: {
-                    type: 'string',
-                    enum: ['insert', 'delete', 'replace'],
-                  },
-                  content: {
-                    type: 'string',
-                  },
-                  position: {
-                    type: 'object',
-                    properties: {
-                      line: { type: 'number' },
-                      character: { type: 'number' },
-                    },
-                  },
-                  range: {
-                    type: 'object',
-                    properties: {
-                      start: {
-                        type: 'object',
-                        properties: {
-                          line: { type: 'number' },
-                          character: { type: 'number' },
-                        },
-                      },
-                      end: {
-                        type: 'object',
-                        properties: {
-                          line: { type: 'number' },
-                          character: { type: 'number' },
-                        },
-                      },
-                    },
-                  },
-                },
-                required: ['type'],
+              operation: editOperationJsonSchema,
+              operations: {
+                type: 'array',
+                description:
+                  'Operations to apply atomically, all written against the same document version. Ranges must not overlap',
+                items: editOperationJsonSchema,
+              },
+              documentVersion: {
+                type: 'number',
+                description:
+                  'Document version the operations were written against; the edit is rejected if the session has moved on',
+              },
+              dryRun: {
+                type: 'boolean',
+                description:
+                  'Preview the edit without applying it: returns a unified diff and the diagnostics it would add or remove',
+              },
+              diagnosticPolicy: {
+                ...diagnosticPolicyJsonSchema,
+                description: `${diagnosticPolicyJsonSchema.description}. Overrides the session's policy`,
+              },
+              diagnosticsMode: {
+                type: 'string',
+                enum: ['full', 'delta'],
+                description:
+                  'full (default) lists every diagnostic and classifies them as introduced, resolved or preExisting; delta lists only introduced and resolved diagnostics and counts the pre-existing ones',
               },
             },
-            required: ['sessionId', 'operation'],
+            required: ['sessionId'],
           },
         },
         {
-          name: 'validate_code',
-          description: 'Validate the current code state',
+          name: 'format_document',
+          description:
+            "Format a session's document with its language server, as one undoable edit. Indents as the .editorconfig files and Prettier config that apply to the file say, unless overridden; the result lists the options used and any config that could not be read",
+          inputSchema: {
+            type: 'object',
+            properties: formatJsonProperties,
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'format_range',
+          description:
+            "Format a range of a session's document with its language server, as one undoable edit. Indents as the .editorconfig files and Prettier config that apply to the file say, unless overridden; the result lists the options used and any config that could not be read",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...formatJsonProperties,
+              range: {
+                ...rangeJsonSchema,
+                description: 'Range to format (0-based lines and characters)',
+              },
+            },
+            required: ['sessionId', 'range'],
+          },
+        },
+        {
+          name: 'goto_definition',
+          description:
+            'Find where the symbol at a position or anchor is defined, with a source excerpt for each definition',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...symbolQueryJsonProperties,
+              contextLines: contextLinesJsonSchema,
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'find_references',
+          description:
+            'Find the references to the symbol at a position or anchor across the project, with a source excerpt for each',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...symbolQueryJsonProperties,
+              includeDeclaration: {
+                type: 'boolean',
+                description: 'Include the declaration itself (default: true)',
+              },
+              contextLines: contextLinesJsonSchema,
+              maxResults: {
+                type: 'number',
+                description:
+                  'Maximum number of references to return (default: 50); the total is always reported',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'call_hierarchy',
+          description:
+            'Walk the callers (incoming) or callees (outgoing) of the function at a position or anchor as a tree, to see what an edit affects. Each node has its file path, range, declaration line and the call sites linking it to its parent; recursion is marked as a cycle instead of being expanded again',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...symbolQueryJsonProperties,
+              direction: {
+                type: 'string',
+                enum: ['incoming', 'outgoing'],
+                description:
+                  'incoming for the functions that call this one, outgoing for the functions it calls',
+              },
+              depth: {
+                type: 'number',
+                description:
+                  'Levels of calls to expand below the function (default: 3)',
+              },
+            },
+            required: ['sessionId', 'direction'],
+          },
+        },
+        {
+          name: 'type_hierarchy',
+          description:
+            'Walk the supertypes or subtypes of the class or interface at a position or anchor as a tree, with the file path, range and declaration line of each type',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...symbolQueryJsonProperties,
+              direction: {
+                type: 'string',
+                enum: ['supertypes', 'subtypes'],
+                description:
+                  'supertypes for the types it extends or implements, subtypes for the types extending or implementing it',
+              },
+              depth: {
+                type: 'number',
+                description:
+                  'Levels of types to expand below the type (default: 3)',
+              },
+            },
+            required: ['sessionId', 'direction'],
+          },
+        },
+        {
+          name: 'hover',
+          description:
+            'Get the type information and documentation of the symbol at a position or anchor',
+          inputSchema: {
+            type: 'object',
+            properties: symbolQueryJsonProperties,
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'get_signature_help',
+          description:
+            'Get the signatures of the function called at a position, one per overload, with their parameters and documentation, the overload that best matches the arguments and the parameter being filled in',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...symbolQueryJsonProperties,
+              position: {
+                ...positionJsonSchema,
+                description:
+                  "Position inside the call's parentheses (0-based line and character)",
+              },
+              anchor: {
+                ...textAnchorJsonSchema,
+                description:
+                  'Locates the position by text instead: the end of the matched text is used, e.g. "add(1, "',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'get_inlay_hints',
+          description:
+            "Render a span of a session's document with the inferred types and parameter names an editor would show inline, each wrapped in a /* */ comment. Lines are numbered 0-based, matching edit_code coordinates; the hints are not part of the document",
           inputSchema: {
             type: 'object',
             properties: {
@@ -227,87 +942,1291 @@ export class HeadlessEditorServer {
                 type: 'string',
                 description: 'ID of the editing session',
               },
+              startLine: {
+                type: 'number',
+                description: 'First line to render (0-based, inclusive)',
+              },
+              endLine: {
+                type: 'number',
+                description: 'Last line to render (0-based, inclusive)',
+              },
             },
             required: ['sessionId'],
           },
         },
         {
-          name: 'close_session',
-          description: 'Close and clean up an editing session',
+          name: 'get_outline',
+          description:
+            "Get an outline of a session's document: one line per symbol with its kind, name, 0-based line range and declaration line, nested by indentation. Deeper levels collapse first to fit the budget, reporting how many symbols are hidden",
           inputSchema: {
             type: 'object',
             properties: {
               sessionId: {
                 type: 'string',
-                description: 'ID of the editing session to close',
+                description: 'ID of the editing session',
+              },
+              depth: {
+                type: 'number',
+                description:
+                  'Levels of nesting to show, 1 for top-level symbols only (default: all)',
+              },
+              maxTokens: {
+                type: 'number',
+                description:
+                  'Approximate size of the outline, in tokens (default: 2000)',
               },
             },
             required: ['sessionId'],
           },
         },
-      ],
-    }));
-
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        const { name, arguments: args } = request.params;
-
-        switch (name) {
-          case 'start_session': {
-            const validatedArgs = StartSessionArgsSchema.parse(args);
-            const session = await this.sessionManager.createSession(
-              validatedArgs.filePath,
-              validatedArgs.languageId
-            );
-
-            return {
-              content: [
+        {
+          name: 'search_symbols',
+          description:
+            'Search the whole project for symbols such as classes, functions and types by fuzzy name, best match first. Needs no session. Each result has its name, kind, container, file path, range and declaration line',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Name or part of a name to search for',
+              },
+              languageId: {
+                type: 'string',
+                description:
+                  'Language whose project to search (default: typescript)',
+              },
+              kinds: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Kinds of symbol to keep, e.g. class, interface, function, method, variable',
+              },
+              maxResults: {
+                type: 'number',
+                description:
+                  'Maximum number of symbols to report (default: 20)',
+              },
+              openResult: {
+                type: 'number',
+                description:
+                  "1-based index of a result to open an editing session on; the result's existing session is reused",
+              },
+            },
+            required: ['query'],
+          },
+        },
+        {
+          name: 'search_text',
+          description:
+            'Search the files in the allowed directories for text or a regular expression, like grep. Needs no session. Each match has its file path, 0-based range as edit_code takes it and numbered lines around it. Files open in a session are searched in their current text',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              pattern: {
+                type: 'string',
+                description: 'Text to search for',
+              },
+              isRegex: {
+                type: 'boolean',
+                description:
+                  'Treat the pattern as a JavaScript regular expression; ^ and $ match at line breaks (default: false)',
+              },
+              caseSensitive: {
+                type: 'boolean',
+                description: 'Whether letter case must match (default: true)',
+              },
+              directory: {
+                type: 'string',
+                description:
+                  'Directory to search instead of every allowed directory',
+              },
+              include: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Globs a file must match to be searched, relative to the searched directory, e.g. src/**/*.ts; a glob without a slash, like *.{ts,tsx}, matches names at any depth',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Globs of files and directories to skip, matched like include. .git and node_modules are always skipped',
+              },
+              useGitignore: {
+                type: 'boolean',
+                description:
+                  'Skip files ignored by .gitignore files in the searched directories (default: true)',
+              },
+              contextLines: {
+                type: 'number',
+                description: 'Lines of context around each match (default: 2)',
+              },
+              maxResults: {
+                type: 'number',
+                description:
+                  'Maximum number of matches to report (default: 50)',
+              },
+            },
+            required: ['pattern'],
+          },
+        },
+        {
+          name: 'get_completions',
+          description:
+            'Get the completions offered at a position, best first, with kind, detail and insert text. Only completions matching the identifier typed before the position are returned',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...completionQueryJsonProperties,
+              maxResults: {
+                type: 'number',
+                description:
+                  'Maximum number of completions to return (default: 20); the total is always reported',
+              },
+              resolve: {
+                type: 'boolean',
+                description:
+                  'Also fetch documentation and additional edits (such as auto-imports) for the returned completions',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'accept_completion',
+          description:
+            'Insert a completion offered at a position as one undoable edit, including its additional edits such as an auto-import',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...completionQueryJsonProperties,
+              label: {
+                type: 'string',
+                description: 'Label of the completion, as from get_completions',
+              },
+              detail: {
+                type: 'string',
+                description:
+                  'Detail of the completion, to pick between completions with the same label (e.g. the module of an auto-import)',
+              },
+              documentVersion: {
+                type: 'number',
+                description:
+                  'Document version the completion was requested for; rejected if the session has moved on',
+              },
+              diagnosticPolicy: {
+                ...diagnosticPolicyJsonSchema,
+                description: `${diagnosticPolicyJsonSchema.description}. Overrides the session's policy`,
+              },
+              diagnosticsMode: {
+                type: 'string',
+                enum: ['full', 'delta'],
+                description:
+                  'How much diagnostic detail to report, as for edit_code',
+              },
+            },
+            required: ['sessionId', 'label'],
+          },
+        },
+        {
+          name: 'list_code_actions',
+          description:
+            'List the code actions offered for a range, such as quick fixes for its diagnostics, refactorings and source actions. Give range or anchor',
+          inputSchema: {
+            type: 'object',
+            properties: codeActionQueryJsonProperties,
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'apply_code_action',
+          description:
+            'Apply a code action offered for a range, by title. Edits to other files open sessions for them; all files change atomically and each can be undone. Give the same range or anchor as list_code_actions',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...codeActionQueryJsonProperties,
+              title: {
+                type: 'string',
+                description: 'Title of the action, as from list_code_actions',
+              },
+              documentVersion: {
+                type: 'number',
+                description:
+                  'Document version the actions were listed for; rejected if the session has moved on',
+              },
+              diagnosticPolicy: {
+                ...diagnosticPolicyJsonSchema,
+                description: `${diagnosticPolicyJsonSchema.description}. Overrides the session's policy`,
+              },
+              diagnosticsMode: {
+                type: 'string',
+                enum: ['full', 'delta'],
+                description:
+                  'How much diagnostic detail to report, as for edit_code',
+              },
+            },
+            required: ['sessionId', 'title'],
+          },
+        },
+        {
+          name: 'organize_imports',
+          description:
+            'Remove unused imports and code, then sort and merge the imports, as one undoable edit. Use dryRun to preview the diff first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session',
+              },
+              removeUnused: {
+                type: 'boolean',
+                description:
+                  'Also remove unused declarations, not only unused imports (default: true)',
+              },
+              dryRun: {
+                type: 'boolean',
+                description:
+                  'Preview the changes without applying them: returns a unified diff',
+              },
+              documentVersion: {
+                type: 'number',
+                description:
+                  'Document version the cleanup is requested for; rejected if the session has moved on',
+              },
+              diagnosticPolicy: {
+                ...diagnosticPolicyJsonSchema,
+                description: `${diagnosticPolicyJsonSchema.description}. Overrides the session's policy`,
+              },
+              diagnosticsMode: {
+                type: 'string',
+                enum: ['full', 'delta'],
+                description:
+                  'How much diagnostic detail to report, as for edit_code',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'rename_symbol',
+          description:
+            'Rename a symbol everywhere it is used across the project. Files without a session are opened in one, so each file can be undone and saved on its own; all files change atomically. Use dryRun to preview the per-file diffs first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...symbolQueryJsonProperties,
+              newName: {
+                type: 'string',
+                description: 'New name of the symbol',
+              },
+              dryRun: {
+                type: 'boolean',
+                description:
+                  'Preview the rename without applying it: returns a unified diff and the diagnostic changes for each file',
+              },
+              documentVersion: {
+                type: 'number',
+                description:
+                  'Document version the rename is requested for; rejected if the session has moved on',
+              },
+              diagnosticPolicy: {
+                ...diagnosticPolicyJsonSchema,
+                description: `${diagnosticPolicyJsonSchema.description}. Overrides the session's policy`,
+              },
+              diagnosticsMode: {
+                type: 'string',
+                enum: ['full', 'delta'],
+                description:
+                  'How much diagnostic detail to report, as for edit_code',
+              },
+            },
+            required: ['sessionId', 'newName'],
+          },
+        },
+        {
+          name: 'validate_code',
+          description: 'Validate the current code state',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'get_document',
+          description:
+            "Read the current text of a session's document, or a span of its lines. Line numbers are 0-based, matching edit_code coordinates",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session',
+              },
+              startLine: {
+                type: 'number',
+                description: 'First line to read (0-based, inclusive)',
+              },
+              endLine: {
+                type: 'number',
+                description: 'Last line to read (0-based, inclusive)',
+              },
+              lineNumbers: {
+                type: 'boolean',
+                description: 'Prefix each line with its line number',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'list_sessions',
+          description:
+            'List open editing sessions with their file, version, dirty flag, history depth, last validation and idle time',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'get_session_info',
+          description:
+            'Describe an editing session: file, language, version, dirty flag, history depth, last validation summary, language server state and idle time',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'undo',
+          description:
+            'Undo the last edit in a session, restoring the original text. Undoing a create_file, delete_file or rename_file reverts it on disk',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'redo',
+          description: 'Redo the last undone edit in a session',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'get_history',
+          description: 'Get the edit history of a session',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'save_session',
+          description:
+            'Write the session document to disk, organizing its imports first if the session was started with organizeImportsOnSave. Fails with SESSION_CONFLICT if the file changed on disk since the session opened it, unless mode is force or merge',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session',
+              },
+              mode: {
+                type: 'string',
+                enum: ['safe', 'force', 'merge'],
+                description:
+                  'safe refuses to overwrite changes on disk (default), force overwrites them, merge applies the session changes on top of them',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'close_session',
+          description: 'Close and clean up an editing session',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session to close',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'start_workspace',
+          description:
+            'Open several files under one workspace ID, for a change spanning them such as a component, its test and its index. Each file gets an editing session of its own (files that already have one keep it), and every file is opened on the language server so cross-file diagnostics see the edited text. Returns the workspace ID and the session ID of each file',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              filePaths: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Paths of the files to open',
+              },
+              languageId: {
+                type: 'string',
+                description:
+                  'Language identifier (e.g., typescript, javascript, python)',
+              },
+              diagnosticPolicy: {
+                ...diagnosticPolicyJsonSchema,
+                description: `${diagnosticPolicyJsonSchema.description} (default: warn)`,
+              },
+            },
+            required: ['filePaths', 'languageId'],
+          },
+        },
+        {
+          name: 'edit_workspace',
+          description:
+            'Apply edit operations to several files of a workspace as one atomic change. Every file is edited before any is validated; with rejectNewErrors, new errors in any file roll back every file. Recorded as one entry in the workspace timeline',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              workspaceId: {
+                type: 'string',
+                description: 'ID of the workspace',
+              },
+              files: {
+                type: 'array',
+                description: 'Operations for each file, as for edit_code',
+                items: {
+                  type: 'object',
+                  properties: {
+                    filePath: {
+                      type: 'string',
+                      description: 'Path of a file in the workspace',
+                    },
+                    operations: {
+                      type: 'array',
+                      description:
+                        'Operations for the file, all written against the same version of it. Ranges must not overlap',
+                      items: editOperationJsonSchema,
+                    },
+                    documentVersion: {
+                      type: 'number',
+                      description:
+                        "Version of the file's document the operations were written against",
+                    },
+                  },
+                  required: ['filePath', 'operations'],
+                },
+              },
+              dryRun: {
+                type: 'boolean',
+                description:
+                  'Preview the change without applying it: returns a unified diff and the diagnostics for each file',
+              },
+              diagnosticPolicy: {
+                ...diagnosticPolicyJsonSchema,
+                description: `${diagnosticPolicyJsonSchema.description}. Overrides the workspace's policy`,
+              },
+              diagnosticsMode: {
+                type: 'string',
+                enum: ['full', 'delta'],
+                description:
+                  'How much diagnostic detail to report, as for edit_code',
+              },
+            },
+            required: ['workspaceId', 'files'],
+          },
+        },
+        {
+          name: 'validate_workspace',
+          description:
+            'Validate every file of a workspace against the current text of the others',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              workspaceId: {
+                type: 'string',
+                description: 'ID of the workspace',
+              },
+            },
+            required: ['workspaceId'],
+          },
+        },
+        {
+          name: 'undo_workspace',
+          description:
+            'Undo the last workspace edit in every file it changed. Fails with SESSION_HISTORY_DIVERGED if one of them was edited outside the workspace since',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              workspaceId: {
+                type: 'string',
+                description: 'ID of the workspace',
+              },
+            },
+            required: ['workspaceId'],
+          },
+        },
+        {
+          name: 'redo_workspace',
+          description:
+            'Redo the last undone workspace edit in every file it changed',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              workspaceId: {
+                type: 'string',
+                description: 'ID of the workspace',
+              },
+            },
+            required: ['workspaceId'],
+          },
+        },
+        {
+          name: 'get_workspace_info',
+          description:
+            'Describe a workspace: its files with their session info, and the depth and position of its timeline',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              workspaceId: {
+                type: 'string',
+                description: 'ID of the workspace',
+              },
+            },
+            required: ['workspaceId'],
+          },
+        },
+        {
+          name: 'save_workspace',
+          description:
+            'Write every changed file of a workspace to disk together: either all are saved or none is. Files whose sessions were started with organizeImportsOnSave have their imports organized first, as one change that undo_workspace reverts. Fails with SESSION_CONFLICT if any file changed on disk, unless mode is force or merge',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              workspaceId: {
+                type: 'string',
+                description: 'ID of the workspace',
+              },
+              mode: {
+                type: 'string',
+                enum: ['safe', 'force', 'merge'],
+                description:
+                  'safe refuses to overwrite changes on disk (default), force overwrites them, merge applies the workspace changes on top of them',
+              },
+            },
+            required: ['workspaceId'],
+          },
+        },
+        {
+          name: 'close_workspace',
+          description:
+            'Close a workspace and the sessions it opened; sessions that were open before it stay open',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              workspaceId: {
+                type: 'string',
+                description: 'ID of the workspace to close',
+              },
+            },
+            required: ['workspaceId'],
+          },
+        },
+        {
+          name: 'create_file',
+          description:
+            "Create a new file on disk and start an editing session for it. Undoing the session's first edit deletes the file again",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              filePath: {
+                type: 'string',
+                description:
+                  'Path of the file to create; it must not exist, but its directory must',
+              },
+              languageId: {
+                type: 'string',
+                description:
+                  'Language identifier (e.g., typescript, javascript, python)',
+              },
+              content: {
+                type: 'string',
+                description: 'Text of the new file (default: empty)',
+              },
+              diagnosticPolicy: {
+                ...diagnosticPolicyJsonSchema,
+                description: `${diagnosticPolicyJsonSchema.description} (default: warn)`,
+              },
+            },
+            required: ['filePath', 'languageId'],
+          },
+        },
+        {
+          name: 'delete_file',
+          description:
+            "Delete a session's file from disk. The session stays open, so undo writes the file back as it was",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session of the file',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'rename_file',
+          description:
+            "Move a session's file on disk and update the import paths that refer to it across the project, and its own relative imports. Files without a session are opened in one. Undo in the session moves the file back and reverts the import updates",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'ID of the editing session of the file',
+              },
+              newPath: {
+                type: 'string',
+                description: 'Path to move the file to; it must not exist',
+              },
+              diagnosticPolicy: {
+                ...diagnosticPolicyJsonSchema,
+                description: `${diagnosticPolicyJsonSchema.description}. Applies to the import updates; if they are rejected the file is not moved. Overrides the session's policy`,
+              },
+              diagnosticsMode: {
+                type: 'string',
+                enum: ['full', 'delta'],
+                description:
+                  'How much diagnostic detail to report, as for edit_code',
+              },
+            },
+            required: ['sessionId', 'newPath'],
+          },
+        },
+      ],
+    }));
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      try {
+        const { name, arguments: args } = request.params;
+
+        switch (name) {
+          case 'start_session': {
+            const validatedArgs = StartSessionArgsSchema.parse(args);
+            const session = await this.sessionManager.createSession(
+              validatedArgs.filePath,
+              validatedArgs.languageId,
+              validatedArgs.diagnosticPolicy,
+              validatedArgs.organizeImportsOnSave
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    sessionId: session.id,
+                    filePath: session.filePath,
+                    languageId: session.languageId,
+                    diagnosticPolicy: session.state.diagnosticPolicy,
+                    organizeImportsOnSave: session.state.organizeImportsOnSave,
+                  }),
+                },
+              ],
+            };
+          }
+
+          case 'edit_code': {
+            const validatedArgs = EditCodeArgsSchema.parse(args);
+            const operations = validatedArgs.operations ?? [
+              validatedArgs.operation!,
+            ];
+            const options = {
+              documentVersion: validatedArgs.documentVersion,
+              diagnosticPolicy: validatedArgs.diagnosticPolicy,
+              diagnosticsMode: validatedArgs.diagnosticsMode,
+            };
+            const result = validatedArgs.dryRun
+              ? await this.editManager.previewEdits(
+                  validatedArgs.sessionId,
+                  operations,
+                  options
+                )
+              : await this.editManager.applyEdits(
+                  validatedArgs.sessionId,
+                  operations,
+                  options
+                );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'format_document':
+          case 'format_range': {
+            const validatedArgs =
+              name === 'format_range'
+                ? FormatRangeArgsSchema.parse(args)
+                : { ...FormatDocumentArgsSchema.parse(args), range: undefined };
+            const result = await this.editManager.formatDocument(
+              validatedArgs.sessionId,
+              {
+                range: validatedArgs.range,
+                formatOptions: {
+                  tabSize: validatedArgs.tabSize,
+                  insertSpaces: validatedArgs.insertSpaces,
+                  trimTrailingWhitespace: validatedArgs.trimTrailingWhitespace,
+                  insertFinalNewline: validatedArgs.insertFinalNewline,
+                },
+                documentVersion: validatedArgs.documentVersion,
+                dryRun: validatedArgs.dryRun,
+                diagnosticPolicy: validatedArgs.diagnosticPolicy,
+                diagnosticsMode: validatedArgs.diagnosticsMode,
+              }
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'goto_definition': {
+            const validatedArgs = GotoDefinitionArgsSchema.parse(args);
+            const definitions = await this.codeNavigator.getDefinition(
+              validatedArgs.sessionId,
+              validatedArgs,
+              validatedArgs.contextLines
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ definitions }),
+                },
+              ],
+            };
+          }
+
+          case 'find_references': {
+            const validatedArgs = FindReferencesArgsSchema.parse(args);
+            const result = await this.codeNavigator.findReferences(
+              validatedArgs.sessionId,
+              validatedArgs,
+              validatedArgs
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'call_hierarchy': {
+            const validatedArgs = CallHierarchyArgsSchema.parse(args);
+            const result = await this.codeNavigator.getCallHierarchy(
+              validatedArgs.sessionId,
+              validatedArgs,
+              validatedArgs
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'type_hierarchy': {
+            const validatedArgs = TypeHierarchyArgsSchema.parse(args);
+            const result = await this.codeNavigator.getTypeHierarchy(
+              validatedArgs.sessionId,
+              validatedArgs,
+              validatedArgs
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'hover': {
+            const validatedArgs = SymbolQueryArgsSchema.parse(args);
+            const hover = await this.codeNavigator.getHover(
+              validatedArgs.sessionId,
+              validatedArgs
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ hover }),
+                },
+              ],
+            };
+          }
+
+          case 'get_signature_help': {
+            const validatedArgs = SymbolQueryArgsSchema.parse(args);
+            const signatureHelp = await this.codeNavigator.getSignatureHelp(
+              validatedArgs.sessionId,
+              validatedArgs
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ signatureHelp }),
+                },
+              ],
+            };
+          }
+
+          case 'get_inlay_hints': {
+            const validatedArgs = GetInlayHintsArgsSchema.parse(args);
+            const result = await this.codeNavigator.getInlayHints(
+              validatedArgs.sessionId,
+              validatedArgs.startLine,
+              validatedArgs.endLine
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'get_outline': {
+            const validatedArgs = GetOutlineArgsSchema.parse(args);
+            const result = await this.codeNavigator.getOutline(
+              validatedArgs.sessionId,
+              validatedArgs
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'search_text': {
+            const validatedArgs = SearchTextArgsSchema.parse(args);
+            const directories = validatedArgs.directory
+              ? [await this.fs.validatePath(validatedArgs.directory)]
+              : this.allowedDirectories;
+            const result = await searchText(
+              this.fs,
+              directories,
+              validatedArgs,
+              (filePath) =>
+                this.sessionManager
+                  .findSessionByPath(filePath)
+                  ?.document.getText()
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'search_symbols': {
+            const validatedArgs = SearchSymbolsArgsSchema.parse(args);
+            const result = await this.codeNavigator.searchSymbols(
+              validatedArgs.query,
+              validatedArgs
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'get_completions': {
+            const validatedArgs = GetCompletionsArgsSchema.parse(args);
+            const result = await this.codeNavigator.getCompletions(
+              validatedArgs.sessionId,
+              validatedArgs,
+              validatedArgs
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'accept_completion': {
+            const validatedArgs = AcceptCompletionArgsSchema.parse(args);
+            const { edits, documentVersion } =
+              await this.codeNavigator.getCompletionEdits(
+                validatedArgs.sessionId,
+                validatedArgs,
+                validatedArgs
+              );
+            const result = await this.editManager.applyTextEdits(
+              validatedArgs.sessionId,
+              edits,
+              {
+                documentVersion:
+                  validatedArgs.documentVersion ?? documentVersion,
+                diagnosticPolicy: validatedArgs.diagnosticPolicy,
+                diagnosticsMode: validatedArgs.diagnosticsMode,
+              },
+              { completion: validatedArgs.label }
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'list_code_actions': {
+            const validatedArgs = CodeActionQueryArgsSchema.parse(args);
+            const actions = await this.codeActionManager.listCodeActions(
+              validatedArgs.sessionId,
+              validatedArgs
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ actions }),
+                },
+              ],
+            };
+          }
+
+          case 'apply_code_action': {
+            const validatedArgs = ApplyCodeActionArgsSchema.parse(args);
+            const result = await this.codeActionManager.applyCodeAction(
+              validatedArgs.sessionId,
+              validatedArgs,
+              validatedArgs.title,
+              validatedArgs
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'organize_imports': {
+            const validatedArgs = OrganizeImportsArgsSchema.parse(args);
+            const { edits, documentVersion } =
+              await this.codeActionManager.getOrganizeImportsEdits(
+                validatedArgs.sessionId,
+                validatedArgs.removeUnused
+              );
+            const options = {
+              documentVersion: validatedArgs.documentVersion ?? documentVersion,
+              diagnosticPolicy: validatedArgs.diagnosticPolicy,
+              diagnosticsMode: validatedArgs.diagnosticsMode,
+            };
+            const details = { organizeImports: true };
+            const result = validatedArgs.dryRun
+              ? await this.editManager.previewTextEdits(
+                  validatedArgs.sessionId,
+                  edits,
+                  options,
+                  details
+                )
+              : await this.editManager.applyTextEdits(
+                  validatedArgs.sessionId,
+                  edits,
+                  options,
+                  details
+                );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'rename_symbol': {
+            const validatedArgs = RenameSymbolArgsSchema.parse(args);
+            const { workspaceEdit, documentVersion } =
+              await this.codeNavigator.getRenameEdits(
+                validatedArgs.sessionId,
+                validatedArgs,
+                validatedArgs.newName
+              );
+            const options = {
+              documentVersion: validatedArgs.documentVersion ?? documentVersion,
+              diagnosticPolicy: validatedArgs.diagnosticPolicy,
+              diagnosticsMode: validatedArgs.diagnosticsMode,
+            };
+            const details = { rename: validatedArgs.newName };
+            const result = validatedArgs.dryRun
+              ? await this.editManager.previewWorkspaceEdits(
+                  validatedArgs.sessionId,
+                  [workspaceEdit],
+                  options,
+                  details
+                )
+              : await this.editManager.applyWorkspaceEdits(
+                  validatedArgs.sessionId,
+                  [workspaceEdit],
+                  options,
+                  details
+                );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'validate_code': {
+            const validatedArgs = ValidateCodeArgsSchema.parse(args);
+            const session = await this.sessionManager.getSession(
+              validatedArgs.sessionId
+            );
+            const diagnostics = await this.lspManager.validateDocument(
+              session.document.uri,
+              session.document.getText(),
+              session.languageId
+            );
+            await this.sessionManager.updateValidationState(
+              session.id,
+              diagnostics,
+              session.document.version
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ diagnostics }),
+                },
+              ],
+            };
+          }
+
+          case 'get_document': {
+            const validatedArgs = GetDocumentArgsSchema.parse(args);
+            const content = await this.sessionManager.readDocument(
+              validatedArgs.sessionId,
+              validatedArgs.startLine,
+              validatedArgs.endLine,
+              validatedArgs.lineNumbers
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(content),
+                },
+              ],
+            };
+          }
+
+          case 'list_sessions': {
+            return {
+              content: [
                 {
                   type: 'text',
                   text: JSON.stringify({
-                    sessionId: session.id,
+                    sessions: this.sessionManager.listSessions(),
+                  }),
+                },
+              ],
+            };
+          }
+
+          case 'get_session_info': {
+            const validatedArgs = SessionInfoArgsSchema.parse(args);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(
+                    this.sessionManager.getSessionInfo(validatedArgs.sessionId)
+                  ),
+                },
+              ],
+            };
+          }
+
+          case 'undo':
+          case 'redo': {
+            const validatedArgs = HistoryArgsSchema.parse(args);
+            const success =
+              name === 'undo'
+                ? await this.sessionManager.undo(validatedArgs.sessionId)
+                : await this.sessionManager.redo(validatedArgs.sessionId);
+            const session = await this.sessionManager.getSession(
+              validatedArgs.sessionId
+            );
+            const history = session.state.editHistory;
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    success,
                     filePath: session.filePath,
-                    languageId: session.languageId,
+                    documentVersion: session.document.version,
+                    canUndo: history.canUndo,
+                    canRedo: history.canRedo,
                   }),
                 },
               ],
             };
           }
 
-          case 'edit_code': {
-            const validatedArgs = EditCodeArgsSchema.parse(args);
-            const result = await this.editManager.applyEdit(
-              validatedArgs.sessionId,
-              validatedArgs.operation
+          case 'get_history': {
+            const validatedArgs = HistoryArgsSchema.parse(args);
+            const history = await this.sessionManager.getHistory(
+              validatedArgs.sessionId
             );
 
             return {
               content: [
                 {
                   type: 'text',
-                  text: JSON.stringify(result),
+                  text: JSON.stringify({
+                    currentIndex: history.currentIndex,
+                    canUndo: history.canUndo,
+                    canRedo: history.canRedo,
+                    operations: history.operations.map((operation, index) => ({
+                      index,
+                      timestamp: operation.timestamp,
+                      documentVersion: operation.documentVersion,
+                      changes: operation.changes,
+                      replacedText: operation.replacedText,
+                    })),
+                  }),
                 },
               ],
             };
           }
 
-          case 'validate_code': {
-            const validatedArgs = ValidateCodeArgsSchema.parse(args);
+          case 'save_session': {
+            const validatedArgs = SaveSessionArgsSchema.parse(args);
             const session = await this.sessionManager.getSession(
               validatedArgs.sessionId
             );
-            const diagnostics = await this.lspManager.validateDocument(
-              session.document.uri,
-              session.document.getText(),
-              session.languageId
+            const organizeImports = await this.organizeImportsOnSave(session);
+
+            const result = await this.sessionManager.saveSession(
+              validatedArgs.sessionId,
+              validatedArgs.mode
             );
 
             return {
               content: [
                 {
                   type: 'text',
-                  text: JSON.stringify({ diagnostics }),
+                  text: JSON.stringify({
+                    success: true,
+                    ...result,
+                    organizeImports,
+                  }),
                 },
               ],
             };
@@ -332,6 +2251,224 @@ export class HeadlessEditorServer {
             };
           }
 
+          case 'start_workspace': {
+            const validatedArgs = StartWorkspaceArgsSchema.parse(args);
+            const workspace = await this.workspaceManager.createWorkspace(
+              validatedArgs.filePaths,
+              validatedArgs.languageId,
+              validatedArgs.diagnosticPolicy
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    workspaceId: workspace.id,
+                    languageId: workspace.languageId,
+                    diagnosticPolicy: workspace.diagnosticPolicy,
+                    files: workspace.members,
+                  }),
+                },
+              ],
+            };
+          }
+
+          case 'edit_workspace': {
+            const validatedArgs = EditWorkspaceArgsSchema.parse(args);
+            const result = await this.workspaceManager.editWorkspace(
+              validatedArgs.workspaceId,
+              validatedArgs.files,
+              {
+                diagnosticPolicy: validatedArgs.diagnosticPolicy,
+                diagnosticsMode: validatedArgs.diagnosticsMode,
+              },
+              validatedArgs.dryRun
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'validate_workspace': {
+            const validatedArgs = WorkspaceArgsSchema.parse(args);
+            const files = await this.workspaceManager.validateWorkspace(
+              validatedArgs.workspaceId
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ files }),
+                },
+              ],
+            };
+          }
+
+          case 'undo_workspace':
+          case 'redo_workspace': {
+            const validatedArgs = WorkspaceArgsSchema.parse(args);
+            const result =
+              name === 'undo_workspace'
+                ? await this.workspaceManager.undo(validatedArgs.workspaceId)
+                : await this.workspaceManager.redo(validatedArgs.workspaceId);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'get_workspace_info': {
+            const validatedArgs = WorkspaceArgsSchema.parse(args);
+            const info = this.workspaceManager.getWorkspaceInfo(
+              validatedArgs.workspaceId
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(info),
+                },
+              ],
+            };
+          }
+
+          case 'save_workspace': {
+            const validatedArgs = SaveWorkspaceArgsSchema.parse(args);
+            const workspace = this.workspaceManager.getWorkspace(
+              validatedArgs.workspaceId
+            );
+
+            // The cleanup of every file is one change, undone as a whole
+            // with undo_workspace
+            const cleanups: { sessionId: string; edits: TextEdit[] }[] = [];
+            for (const member of workspace.members) {
+              const session = await this.sessionManager.getSession(
+                member.sessionId
+              );
+              if (session.state.organizeImportsOnSave) {
+                const { edits } =
+                  await this.codeActionManager.getOrganizeImportsEdits(
+                    session.id,
+                    false
+                  );
+                cleanups.push({ sessionId: session.id, edits });
+              }
+            }
+            const organizeImports =
+              cleanups.length > 0
+                ? await this.workspaceManager.applyTextEdits(
+                    validatedArgs.workspaceId,
+                    cleanups,
+                    {},
+                    { organizeImports: true }
+                  )
+                : undefined;
+
+            const files = await this.workspaceManager.saveWorkspace(
+              validatedArgs.workspaceId,
+              validatedArgs.mode
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    success: true,
+                    files,
+                    organizeImports,
+                  }),
+                },
+              ],
+            };
+          }
+
+          case 'close_workspace': {
+            const validatedArgs = WorkspaceArgsSchema.parse(args);
+            await this.workspaceManager.closeWorkspace(
+              validatedArgs.workspaceId
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ success: true }),
+                },
+              ],
+            };
+          }
+
+          case 'create_file': {
+            const validatedArgs = CreateFileArgsSchema.parse(args);
+            const result = await this.fileOperationManager.createFile(
+              validatedArgs.filePath,
+              validatedArgs.languageId,
+              validatedArgs.content,
+              validatedArgs.diagnosticPolicy
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'delete_file': {
+            const validatedArgs = DeleteFileArgsSchema.parse(args);
+            const result = await this.fileOperationManager.deleteFile(
+              validatedArgs.sessionId
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
+          case 'rename_file': {
+            const validatedArgs = RenameFileArgsSchema.parse(args);
+            const result = await this.fileOperationManager.renameFile(
+              validatedArgs.sessionId,
+              validatedArgs.newPath,
+              {
+                diagnosticPolicy: validatedArgs.diagnosticPolicy,
+                diagnosticsMode: validatedArgs.diagnosticsMode,
+              }
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result),
+                },
+              ],
+            };
+          }
+
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -374,6 +2511,164 @@ export class HeadlessEditorServer {
     });
   }
 
+  /**
+   * Organizes a session's imports before it is saved, if the session was
+   * started with organizeImportsOnSave. Cleaning up is recorded as its own
+   * edit, so it can be undone.
+   * @returns The result of the cleanup, if there was one
+   */
+  private async organizeImportsOnSave(
+    session: EditSession
+  ): Promise<EditResult | undefined> {
+    if (!session.state.organizeImportsOnSave) {
+      return undefined;
+    }
+
+    // Only imports: removing unused code is left to organize_imports, where
+    // the caller can preview it
+    const { edits, documentVersion } =
+      await this.codeActionManager.getOrganizeImportsEdits(session.id, false);
+    return this.editManager.applyTextEdits(
+      session.id,
+      edits,
+      { documentVersion },
+      { organizeImports: true }
+    );
+  }
+
+  private setupResourceHandlers(): void {
+    // List the document and diagnostics of every open session
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: this.sessionManager.listSessions().flatMap((session) => {
+        const fileName = path.basename(session.filePath);
+        return [
+          {
+            uri: getSessionResourceUri(session.sessionId, 'document'),
+            name: `${fileName} (session ${session.sessionId})`,
+            description: `Current buffer of ${session.filePath}`,
+            mimeType: 'text/plain',
+          },
+          {
+            uri: getSessionResourceUri(session.sessionId, 'diagnostics'),
+            name: `${fileName} diagnostics (session ${session.sessionId})`,
+            description: `Last validation result for ${session.filePath}`,
+            mimeType: 'application/json',
+          },
+        ];
+      }),
+    }));
+
+    this.server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request) => {
+        const { uri } = request.params;
+        const [sessionId, kind] = this.parseSessionResourceUri(uri);
+        // Clients mirroring the resource must not keep the session alive
+        const session = this.sessionManager.peekSession(sessionId);
+
+        if (kind === 'document') {
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'text/plain',
+                text: session.document.getText(),
+              },
+            ],
+          };
+        }
+
+        const { validationState } = session.state;
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify({
+                documentVersion: session.document.version,
+                validatedVersion: validationState.documentVersion,
+                isCurrent:
+                  validationState.documentVersion === session.document.version,
+                diagnostics: validationState.diagnostics,
+              }),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const [sessionId] = this.parseSessionResourceUri(request.params.uri);
+      // Fails if the session doesn't exist
+      this.sessionManager.peekSession(sessionId);
+      this.resourceSubscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    this.sessionManager.onDidChangeSession((event) =>
+      this.notifyResourceChange(event)
+    );
+  }
+
+  /**
+   * Tells the client which session resources changed
+   */
+  private notifyResourceChange(event: SessionChangeEvent): void {
+    const send = (notification: Promise<void>): void => {
+      // Notifications fail until a client is connected
+      notification.catch((error) =>
+        this.logger.debug('Failed to send resource notification', {
+          ...event,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    };
+
+    switch (event.kind) {
+      // Resources are listed under their file's path
+      case 'created':
+      case 'moved':
+        send(this.server.sendResourceListChanged());
+        break;
+
+      case 'closed':
+        this.resourceSubscriptions.delete(
+          getSessionResourceUri(event.sessionId, 'document')
+        );
+        this.resourceSubscriptions.delete(
+          getSessionResourceUri(event.sessionId, 'diagnostics')
+        );
+        send(this.server.sendResourceListChanged());
+        break;
+
+      default: {
+        const uri = getSessionResourceUri(event.sessionId, event.kind);
+        if (this.resourceSubscriptions.has(uri)) {
+          send(this.server.sendResourceUpdated({ uri }));
+        }
+      }
+    }
+  }
+
+  /**
+   * Splits a session resource URI into its session ID and resource kind
+   * @throws {SessionError} If the URI is not a session resource
+   */
+  private parseSessionResourceUri(uri: string): [string, SessionResourceKind] {
+    const match = uri.match(SESSION_RESOURCE_PATTERN);
+    if (!match) {
+      throw new SessionError(`Unknown resource: ${uri}`, 'RESOURCE_NOT_FOUND', {
+        uri,
+      });
+    }
+    return [match[1], match[2] as SessionResourceKind];
+  }
+
   private setupErrorHandler(): void {
     this.server.onerror = (error: Error): void => {
       this.logger.error('[MCP Server Error]', error);
@@ -0,0 +1,298 @@
+// src/services/CodeActionManager.ts
+import {
+  CodeAction,
+  Command,
+  Diagnostic,
+  Position,
+  Range,
+  TextEdit,
+  WorkspaceEdit,
+} from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+  ApplyEditOptions,
+  CodeActionInfo,
+  CodeActionQuery,
+  EditSession,
+  WorkspaceEditResult,
+} from '../types/editor.js';
+import { EditError } from '../types/errors.js';
+import { LanguageServer, LSPManager } from '../types/lsp.js';
+import { computeTextEdits, groupFileEdits } from '../utils/edits.js';
+import { Logger } from '../utils/logger.js';
+import { EditOperationManager } from './EditOperationManager.js';
+import { SessionManager } from './SessionManager.js';
+import { TargetResolver } from './TargetResolver.js';
+
+// Source actions run by organize imports, in order
+const REMOVE_UNUSED_KIND = 'source.removeUnused';
+const ORGANIZE_IMPORTS_KIND = 'source.organizeImports';
+
+/**
+ * Lists the code actions the language server offers, such as quick fixes
+ * and refactorings, and applies them to sessions
+ */
+export class CodeActionManager {
+  constructor(
+    private readonly sessionManager: SessionManager,
+    private readonly lspManager: LSPManager,
+    private readonly editManager: EditOperationManager,
+    private readonly targetResolver: TargetResolver,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Lists the code actions offered for a range or anchor. The session's
+   * diagnostics in the range are passed along, so quick fixes for them are
+   * included.
+   * @param sessionId ID of the session to get actions for
+   * @param query Range or anchor, and kinds of actions to list
+   */
+  async listCodeActions(
+    sessionId: string,
+    query: CodeActionQuery
+  ): Promise<CodeActionInfo[]> {
+    const { actions } = await this.getCodeActions(sessionId, query);
+
+    return actions.map((action) =>
+      this.isCommand(action)
+        ? { title: action.title }
+        : {
+            title: action.title,
+            kind: action.kind,
+            isPreferred: action.isPreferred,
+            disabled: action.disabled?.reason,
+            diagnostics: action.diagnostics?.map(
+              (diagnostic) => diagnostic.message
+            ),
+          }
+    );
+  }
+
+  /**
+   * Applies a code action offered for a range or anchor. Its workspace edit
+   * is applied first, then its command is run on the server and the edits
+   * the server requests while running it are applied. All files change
+   * atomically.
+   * @param sessionId ID of the session to apply the action in
+   * @param query Range or anchor, and kinds of actions to choose from
+   * @param title Title of the action, as listed
+   * @param options Expected document version, diagnostic policy and
+   * reporting mode
+   * @throws {EditError} If no action has the title, or it is disabled
+   */
+  async applyCodeAction(
+    sessionId: string,
+    query: CodeActionQuery,
+    title: string,
+    options: ApplyEditOptions = {}
+  ): Promise<WorkspaceEditResult> {
+    const { session, server, actions } = await this.getCodeActions(
+      sessionId,
+      query
+    );
+    this.editManager.checkDocumentVersion(session, options.documentVersion);
+
+    const action = actions.find((candidate) => candidate.title === title);
+    if (!action) {
+      throw new EditError(
+        `Code action not offered: ${title}`,
+        'ACTION_NOT_FOUND',
+        {
+          title,
+          available: actions.map((candidate) => candidate.title),
+        }
+      );
+    }
+
+    if (!this.isCommand(action) && action.disabled) {
+      throw new EditError(
+        `Code action is disabled: ${action.disabled.reason}`,
+        'ACTION_DISABLED',
+        { title }
+      );
+    }
+    const workspaceEdits = await this.resolveEdits(server, action);
+
+    this.logger.debug('Resolved code action edits', {
+      sessionId,
+      title,
+      editCount: workspaceEdits.length,
+    });
+
+    return this.editManager.applyWorkspaceEdits(
+      sessionId,
+      workspaceEdits,
+      options,
+      { codeAction: title }
+    );
+  }
+
+  /**
+   * Gets the edits that remove unused code and then sort and merge the
+   * imports of a session's document, through the language server's
+   * source.removeUnused and source.organizeImports actions. Each action runs
+   * on the result of the previous one, and the combined result is returned
+   * as one set of edits.
+   * @param sessionId ID of the session to organize
+   * @param removeUnused Whether to remove unused code besides imports
+   * @returns The edits, and the document version they apply to
+   */
+  async getOrganizeImportsEdits(
+    sessionId: string,
+    removeUnused: boolean = true
+  ): Promise<{ edits: TextEdit[]; documentVersion: number }> {
+    const session = await this.sessionManager.getSession(sessionId);
+    const { document, filePath, languageId } = session;
+
+    const kinds = removeUnused
+      ? [REMOVE_UNUSED_KIND, ORGANIZE_IMPORTS_KIND]
+      : [ORGANIZE_IMPORTS_KIND];
+    const server = await this.lspManager.getServer(languageId);
+    let current = document;
+
+    try {
+      for (const kind of kinds) {
+        // Source actions are only offered once the diagnostics are in
+        await server.validateDocument(document.uri, current.getText());
+        const actions = await server.getCodeActions(
+          document.uri,
+          Range.create(
+            current.positionAt(0),
+            current.positionAt(current.getText().length)
+          ),
+          [],
+          [kind]
+        );
+        const action = actions.find(
+          (candidate) =>
+            !this.isCommand(candidate) &&
+            (candidate.kind === kind || candidate.kind?.startsWith(`${kind}.`))
+        );
+        if (!action) {
+          continue;
+        }
+
+        const fileEdits = groupFileEdits(
+          await this.resolveEdits(server, action)
+        );
+        for (const edits of fileEdits.get(filePath) ?? []) {
+          current = TextDocument.create(
+            document.uri,
+            languageId,
+            current.version + 1,
+            TextDocument.applyEdits(current, edits)
+          );
+        }
+      }
+    } finally {
+      // Bring the server back to the session's document
+      await server.syncDocument(document.uri, document.getText());
+    }
+
+    this.logger.debug('Resolved organize imports edits', {
+      sessionId,
+      kinds,
+      changed: current !== document,
+    });
+
+    return {
+      edits: computeTextEdits(document, current.getText()),
+      documentVersion: document.version,
+    };
+  }
+
+  /**
+   * Collects the edits of a code action: its workspace edit, then the edits
+   * the server requests while running its command
+   */
+  private async resolveEdits(
+    server: LanguageServer,
+    action: CodeAction | Command
+  ): Promise<WorkspaceEdit[]> {
+    if (this.isCommand(action)) {
+      return server.executeCommand(action);
+    }
+
+    const workspaceEdits = action.edit ? [action.edit] : [];
+    if (action.command) {
+      workspaceEdits.push(...(await server.executeCommand(action.command)));
+    }
+    return workspaceEdits;
+  }
+
+  /**
+   * Requests the code actions for a query from the language server
+   */
+  private async getCodeActions(
+    sessionId: string,
+    query: CodeActionQuery
+  ): Promise<{
+    session: EditSession;
+    server: LanguageServer;
+    actions: (CodeAction | Command)[];
+  }> {
+    const session = await this.sessionManager.getSession(sessionId);
+    const { document, languageId } = session;
+    const range = this.resolveRange(session, query);
+
+    // Waiting for fresh diagnostics also brings the server up to date with
+    // the document. Source actions such as removing unused code are derived
+    // from them, and are not offered before they are in.
+    const server = await this.lspManager.getServer(languageId);
+    const diagnostics = await server.validateDocument(
+      document.uri,
+      document.getText()
+    );
+    await this.sessionManager.updateValidationState(
+      session.id,
+      diagnostics,
+      document.version
+    );
+
+    const actions = await server.getCodeActions(
+      document.uri,
+      range,
+      diagnostics.filter((diagnostic) => this.intersects(diagnostic, range)),
+      query.only
+    );
+
+    return { session, server, actions };
+  }
+
+  /**
+   * @throws {EditError} If the query has neither or both of a range and an
+   * anchor, or the anchor does not match exactly once
+   */
+  private resolveRange(session: EditSession, query: CodeActionQuery): Range {
+    if (!query.range === !query.anchor) {
+      throw new EditError(
+        'Provide either a range or an anchor',
+        'INVALID_TARGET',
+        { query }
+      );
+    }
+
+    return (
+      query.range ??
+      this.targetResolver.resolveAnchor(session.document, query.anchor!)
+    );
+  }
+
+  /**
+   * Checks whether a diagnostic touches a range, counting shared ends
+   */
+  private intersects(diagnostic: Diagnostic, range: Range): boolean {
+    const before = (a: Position, b: Position) =>
+      a.line < b.line || (a.line === b.line && a.character < b.character);
+
+    return (
+      !before(diagnostic.range.end, range.start) &&
+      !before(range.end, diagnostic.range.start)
+    );
+  }
+
+  private isCommand(action: CodeAction | Command): action is Command {
+    return typeof action.command === 'string';
+  }
+}
@@ -0,0 +1,1075 @@
+// src/services/CodeNavigator.ts
+import {
+  CallHierarchyItem,
+  CompletionItem,
+  CompletionItemKind,
+  DocumentSymbol,
+  Hover,
+  InsertTextFormat,
+  Location,
+  LocationLink,
+  MarkedString,
+  MarkupContent,
+  Position,
+  Range,
+  SignatureInformation,
+  SymbolInformation,
+  SymbolKind,
+  TextEdit,
+  TypeHierarchyItem,
+  WorkspaceEdit,
+} from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { EditSession } from '../types/editor.js';
+import { LanguageServer, LSPManager } from '../types/lsp.js';
+import {
+  CompletionInfo,
+  CompletionSelection,
+  CompletionsResult,
+  HierarchyNode,
+  HierarchyResult,
+  HoverInfo,
+  InlayHintsResult,
+  NavigationError,
+  OutlineOptions,
+  OutlineResult,
+  ReferencesResult,
+  SignatureHelpInfo,
+  SignatureInfo,
+  SourceLocation,
+  SymbolQuery,
+  SymbolSearchOptions,
+  SymbolSearchResult,
+  WorkspaceSymbolInfo,
+} from '../types/navigation.js';
+import { getExcerpt, toFilePath } from '../utils/document.js';
+import { FileSystemManager } from '../utils/fs.js';
+import { renderInlayHints } from '../utils/inlayHints.js';
+import { Logger } from '../utils/logger.js';
+import { renderOutline } from '../utils/outline.js';
+import { findEnclosingSymbol, SYMBOL_KIND_NAMES } from '../utils/symbols.js';
+import { SessionManager } from './SessionManager.js';
+import { TargetResolver } from './TargetResolver.js';
+
+const DEFAULT_CONTEXT_LINES = 1;
+const DEFAULT_MAX_REFERENCES = 50;
+const DEFAULT_MAX_COMPLETIONS = 20;
+const DEFAULT_OUTLINE_MAX_TOKENS = 2000;
+const DEFAULT_MAX_SYMBOLS = 20;
+const DEFAULT_SEARCH_LANGUAGE = 'typescript';
+const DEFAULT_HIERARCHY_DEPTH = 3;
+
+/** Nodes in a call or type hierarchy before the rest are left out */
+const MAX_HIERARCHY_NODES = 200;
+
+/**
+ * Symbol kinds ranked ahead of members and variables with an equally good
+ * name match in symbol searches
+ */
+const DECLARATION_KINDS: SymbolKind[] = [
+  SymbolKind.Class,
+  SymbolKind.Interface,
+  SymbolKind.Enum,
+  SymbolKind.Function,
+  SymbolKind.Module,
+  SymbolKind.Namespace,
+  SymbolKind.Struct,
+  SymbolKind.TypeParameter,
+];
+
+/**
+ * A link from a node in a hierarchy to one of its children, with the calls
+ * making the link in a call hierarchy
+ */
+interface HierarchyLink<T> {
+  item: T;
+  callSites?: Location[];
+}
+
+const COMPLETION_KIND_NAMES = new Map(
+  Object.entries(CompletionItemKind).map(([name, kind]) => [
+    kind,
+    name.toLowerCase(),
+  ])
+);
+
+/**
+ * Answers semantic questions about the code in a session's document, such
+ * as where a symbol is defined or used, or what can be typed at a position
+ */
+export class CodeNavigator {
+  constructor(
+    private readonly sessionManager: SessionManager,
+    private readonly lspManager: LSPManager,
+    private readonly targetResolver: TargetResolver,
+    private readonly fs: FileSystemManager,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Finds where the symbol at a position or anchor is defined
+   * @param sessionId ID of the session containing the symbol
+   * @param query Position or anchor of the symbol
+   * @param contextLines Lines of context around each excerpt
+   */
+  async getDefinition(
+    sessionId: string,
+    query: SymbolQuery,
+    contextLines: number = DEFAULT_CONTEXT_LINES
+  ): Promise<SourceLocation[]> {
+    const { session, server, position } = await this.prepare(sessionId, query);
+    const definitions = await server.getDefinition(
+      session.document.uri,
+      position
+    );
+
+    this.logger.debug('Found definitions', {
+      sessionId,
+      position,
+      count: definitions.length,
+    });
+
+    return this.toSourceLocations(
+      definitions.map((definition) => this.toLocation(definition)),
+      contextLines
+    );
+  }
+
+  /**
+   * Finds the references to the symbol at a position or anchor
+   * @param sessionId ID of the session containing the symbol
+   * @param query Position or anchor of the symbol
+   * @param options Whether to include the declaration, lines of context
+   * around each excerpt and the maximum number of references to report
+   */
+  async findReferences(
+    sessionId: string,
+    query: SymbolQuery,
+    options: {
+      includeDeclaration?: boolean;
+      contextLines?: number;
+      maxResults?: number;
+    } = {}
+  ): Promise<ReferencesResult> {
+    const { session, server, position } = await this.prepare(sessionId, query);
+    const references = await server.getReferences(
+      session.document.uri,
+      position,
+      options.includeDeclaration ?? true
+    );
+
+    this.logger.debug('Found references', {
+      sessionId,
+      position,
+      count: references.length,
+    });
+
+    return {
+      references: await this.toSourceLocations(
+        references.slice(0, options.maxResults ?? DEFAULT_MAX_REFERENCES),
+        options.contextLines ?? DEFAULT_CONTEXT_LINES
+      ),
+      total: references.length,
+    };
+  }
+
+  /**
+   * Gets type information and documentation for the symbol at a position or
+   * anchor
+   * @returns The hover information, or null if there is none
+   */
+  async getHover(
+    sessionId: string,
+    query: SymbolQuery
+  ): Promise<HoverInfo | null> {
+    const { session, server, position } = await this.prepare(sessionId, query);
+    const hover = await server.getHover(session.document.uri, position);
+
+    if (!hover) {
+      return null;
+    }
+
+    return {
+      contents: this.renderHoverContents(hover.contents),
+      range: hover.range,
+    };
+  }
+
+  /**
+   * Gets the signatures of the call at a position, or at the end of an
+   * anchor, with the parameter being filled in
+   * @returns The signatures, or null if the position is not in a call
+   */
+  async getSignatureHelp(
+    sessionId: string,
+    query: SymbolQuery
+  ): Promise<SignatureHelpInfo | null> {
+    const { session, server, position } = await this.prepare(
+      sessionId,
+      query,
+      'end'
+    );
+    const help = await server.getSignatureHelp(session.document.uri, position);
+
+    if (!help?.signatures.length) {
+      return null;
+    }
+
+    const activeSignature = help.activeSignature ?? 0;
+    return {
+      signatures: help.signatures.map((signature, index) =>
+        this.toSignatureInfo(
+          signature,
+          index === activeSignature ? help.activeParameter : undefined
+        )
+      ),
+      activeSignature,
+    };
+  }
+
+  /**
+   * Renders a span of a session's document with the inferred types and
+   * parameter names the language server would show inline
+   * @param sessionId ID of the session to render
+   * @param startLine First line to render (0-based, inclusive)
+   * @param endLine Last line to render (0-based, inclusive)
+   * @throws {NavigationError} If the line range is outside the document
+   */
+  async getInlayHints(
+    sessionId: string,
+    startLine?: number,
+    endLine?: number
+  ): Promise<InlayHintsResult> {
+    const session = await this.sessionManager.getSession(sessionId);
+    const { document, filePath } = session;
+    const lastLine = document.lineCount - 1;
+    const start = startLine ?? 0;
+    const end = Math.min(endLine ?? lastLine, lastLine);
+
+    if (start < 0 || start > lastLine || end < start) {
+      throw new NavigationError(
+        `Invalid line range ${start}-${endLine ?? lastLine} for a document of ${document.lineCount} lines`,
+        'INVALID_LINE_RANGE',
+        { sessionId, startLine, endLine, lineCount: document.lineCount }
+      );
+    }
+
+    const server = await this.connect(session);
+    const hints = await server.getInlayHints(
+      document.uri,
+      // The start of the next line, clamped to the end of the document
+      Range.create(
+        Position.create(start, 0),
+        document.positionAt(document.offsetAt(Position.create(end + 1, 0)))
+      )
+    );
+
+    this.logger.debug('Found inlay hints', {
+      sessionId,
+      startLine: start,
+      endLine: end,
+      count: hints.length,
+    });
+
+    return {
+      filePath,
+      documentVersion: document.version,
+      startLine: start,
+      endLine: end,
+      code: renderInlayHints(document, hints, start, end),
+      hintCount: hints.length,
+    };
+  }
+
+  /**
+   * Renders the symbols of a session's document as an outline, within a
+   * depth and token budget
+   * @param sessionId ID of the session to outline
+   * @param options Levels of nesting and approximate size to allow
+   */
+  async getOutline(
+    sessionId: string,
+    options: OutlineOptions = {}
+  ): Promise<OutlineResult> {
+    const { maxTokens = DEFAULT_OUTLINE_MAX_TOKENS, depth } = options;
+    const session = await this.sessionManager.getSession(sessionId);
+    const { document, languageId, filePath } = session;
+
+    const server = await this.lspManager.getServer(languageId);
+    await server.syncDocument(document.uri, document.getText());
+    const symbols = await server.getDocumentSymbols(document.uri);
+
+    return {
+      filePath,
+      documentVersion: document.version,
+      ...renderOutline(document, symbols, depth, maxTokens),
+    };
+  }
+
+  /**
+   * Searches the project for symbols whose names match a query, such as
+   * classes, functions and types. No session is needed; one can be opened
+   * on a match.
+   * @param query Name or part of a name to look for
+   * @param options Language to search, kinds and number of symbols to
+   * report, and the symbol to open a session on
+   * @throws {NavigationError} If the symbol to open was not reported
+   */
+  async searchSymbols(
+    query: string,
+    options: SymbolSearchOptions = {}
+  ): Promise<SymbolSearchResult> {
+    const {
+      languageId = DEFAULT_SEARCH_LANGUAGE,
+      kinds,
+      maxResults = DEFAULT_MAX_SYMBOLS,
+      openResult,
+    } = options;
+
+    const server = await this.lspManager.getServer(languageId);
+    const matches = this.rankSymbols(
+      query,
+      (await server.getWorkspaceSymbols(query)).filter(
+        (symbol) =>
+          !kinds?.length ||
+          kinds.includes(SYMBOL_KIND_NAMES.get(symbol.kind) ?? '')
+      )
+    );
+    const reported = matches.slice(0, maxResults);
+
+    // Excerpts show the line each symbol is declared on
+    const locations = await this.toSourceLocations(
+      reported.map(({ location }) => ({
+        uri: location.uri,
+        range: Range.create(location.range.start, location.range.start),
+      })),
+      0
+    );
+    const containerNames = await this.findContainerNames(server, reported);
+
+    const symbols = reported.map(
+      (symbol, index): WorkspaceSymbolInfo => ({
+        name: symbol.name,
+        kind: SYMBOL_KIND_NAMES.get(symbol.kind) ?? 'symbol',
+        containerName: containerNames[index],
+        filePath: locations[index].filePath,
+        range: symbol.location.range,
+        excerpt: locations[index].excerpt,
+      })
+    );
+
+    this.logger.debug('Found workspace symbols', {
+      query,
+      languageId,
+      count: matches.length,
+    });
+
+    return {
+      symbols,
+      total: matches.length,
+      session:
+        openResult === undefined
+          ? undefined
+          : await this.openSymbolSession(symbols, openResult, languageId),
+    };
+  }
+
+  /**
+   * Gets the completions offered at a position, or at the end of an anchor,
+   * that match the text typed before it
+   * @param sessionId ID of the session to complete in
+   * @param query Position or anchor to complete at
+   * @param options Maximum number of completions to report, and whether to
+   * resolve their documentation and additional edits
+   */
+  async getCompletions(
+    sessionId: string,
+    query: SymbolQuery,
+    options: { maxResults?: number; resolve?: boolean } = {}
+  ): Promise<CompletionsResult> {
+    const { session, server, position } = await this.prepare(
+      sessionId,
+      query,
+      'end'
+    );
+    const matches = this.rankCompletions(
+      session.document,
+      position,
+      await server.getCompletions(session.document.uri, position)
+    );
+
+    let items = matches.slice(0, options.maxResults ?? DEFAULT_MAX_COMPLETIONS);
+    if (options.resolve) {
+      items = await Promise.all(
+        items.map((item) => server.resolveCompletion(item))
+      );
+    }
+
+    this.logger.debug('Found completions', {
+      sessionId,
+      position,
+      count: matches.length,
+    });
+
+    return {
+      items: items.map((item) => this.toCompletionInfo(item)),
+      total: matches.length,
+    };
+  }
+
+  /**
+   * Gets the edits that accept a completion, including additional edits such
+   * as auto-imports
+   * @param sessionId ID of the session to complete in
+   * @param query Position or anchor to complete at
+   * @param selection Completion to accept
+   * @returns The edits, and the document version they apply to
+   * @throws {NavigationError} If no completion or several match the selection
+   */
+  async getCompletionEdits(
+    sessionId: string,
+    query: SymbolQuery,
+    selection: CompletionSelection
+  ): Promise<{ edits: TextEdit[]; documentVersion: number }> {
+    const { session, server, position } = await this.prepare(
+      sessionId,
+      query,
+      'end'
+    );
+    const { document } = session;
+    const offered = this.rankCompletions(
+      document,
+      position,
+      await server.getCompletions(document.uri, position)
+    ).filter((item) => item.label === selection.label);
+
+    let candidates = offered.filter(
+      (item) =>
+        selection.detail === undefined || item.detail === selection.detail
+    );
+    if (candidates.length === 0 && selection.detail !== undefined) {
+      // The detail may come from a resolved completion, which can be fuller
+      // than the listed one
+      candidates = (
+        await Promise.all(offered.map((item) => server.resolveCompletion(item)))
+      ).filter((item) => item.detail === selection.detail);
+    }
+
+    if (candidates.length === 0) {
+      throw new NavigationError(
+        `Completion ${selection.label} not offered at ${position.line}:${position.character}`,
+        'COMPLETION_NOT_FOUND',
+        { selection, position }
+      );
+    }
+
+    const details = new Set(candidates.map((item) => item.detail));
+    if (details.size > 1) {
+      throw new NavigationError(
+        `Completion ${selection.label} is offered ${candidates.length} times; add its detail`,
+        'AMBIGUOUS_COMPLETION',
+        { selection, candidates: Array.from(details) }
+      );
+    }
+
+    const item = await server.resolveCompletion(candidates[0]);
+    const insertion = item.textEdit
+      ? {
+          range:
+            'range' in item.textEdit
+              ? item.textEdit.range
+              : item.textEdit.replace,
+          newText: item.textEdit.newText,
+        }
+      : {
+          range: Range.create(
+            document.positionAt(
+              document.offsetAt(position) -
+                this.getTypedPrefix(document, position).length
+            ),
+            position
+          ),
+          newText: item.insertText ?? item.label,
+        };
+
+    if (item.insertTextFormat === InsertTextFormat.Snippet) {
+      insertion.newText = this.stripSnippet(insertion.newText);
+    }
+
+    return {
+      edits: [insertion, ...(item.additionalTextEdits ?? [])],
+      documentVersion: document.version,
+    };
+  }
+
+  /**
+   * Gets the edits that rename a symbol everywhere it is used, which may
+   * span several files
+   * @param sessionId ID of the session containing the symbol
+   * @param query Position or anchor of the symbol
+   * @param newName New name of the symbol
+   * @returns The edits, and the document version they apply to
+   * @throws {NavigationError} If the symbol cannot be renamed
+   */
+  async getRenameEdits(
+    sessionId: string,
+    query: SymbolQuery,
+    newName: string
+  ): Promise<{ workspaceEdit: WorkspaceEdit; documentVersion: number }> {
+    const { session, server, position } = await this.prepare(sessionId, query);
+    const { document } = session;
+
+    const prepared = await server.prepareRename(document.uri, position);
+    if (!prepared) {
+      throw new NavigationError(
+        `No renameable symbol at ${position.line}:${position.character}`,
+        'RENAME_NOT_ALLOWED',
+        { position }
+      );
+    }
+
+    const workspaceEdit = await server.rename(document.uri, position, newName);
+    if (!workspaceEdit) {
+      throw new NavigationError(
+        `Symbol at ${position.line}:${position.character} cannot be renamed to ${newName}`,
+        'RENAME_NOT_ALLOWED',
+        { position, newName }
+      );
+    }
+
+    this.logger.debug('Resolved rename edits', {
+      sessionId,
+      position,
+      newName,
+    });
+
+    return { workspaceEdit, documentVersion: document.version };
+  }
+
+  /**
+   * Walks the callers or callees of the function at a position or anchor
+   * @param sessionId ID of the session containing the function
+   * @param query Position or anchor of the function
+   * @param options Direction to walk and levels to expand below the
+   * function
+   */
+  async getCallHierarchy(
+    sessionId: string,
+    query: SymbolQuery,
+    options: { direction: 'incoming' | 'outgoing'; depth?: number }
+  ): Promise<HierarchyResult> {
+    const { session, server, position } = await this.prepare(sessionId, query);
+    const items = await server.prepareCallHierarchy(
+      session.document.uri,
+      position
+    );
+
+    const expand = async (
+      item: CallHierarchyItem
+    ): Promise<HierarchyLink<CallHierarchyItem>[]> => {
+      if (options.direction === 'incoming') {
+        const calls = await server.getIncomingCalls(item);
+        return calls.map(({ from, fromRanges }) => ({
+          item: from,
+          callSites: fromRanges.map((range) => ({ uri: from.uri, range })),
+        }));
+      }
+
+      // Outgoing call sites are in the caller, not the callee
+      const calls = await server.getOutgoingCalls(item);
+      return calls.map(({ to, fromRanges }) => ({
+        item: to,
+        callSites: fromRanges.map((range) => ({ uri: item.uri, range })),
+      }));
+    };
+
+    return this.buildHierarchy(
+      items,
+      options.depth ?? DEFAULT_HIERARCHY_DEPTH,
+      expand
+    );
+  }
+
+  /**
+   * Walks the supertypes or subtypes of the type at a position or anchor
+   * @param sessionId ID of the session containing the type
+   * @param query Position or anchor of the type
+   * @param options Direction to walk and levels to expand below the type
+   */
+  async getTypeHierarchy(
+    sessionId: string,
+    query: SymbolQuery,
+    options: { direction: 'supertypes' | 'subtypes'; depth?: number }
+  ): Promise<HierarchyResult> {
+    const { session, server, position } = await this.prepare(sessionId, query);
+    const items = await server.prepareTypeHierarchy(
+      session.document.uri,
+      position
+    );
+
+    const expand = async (
+      item: TypeHierarchyItem
+    ): Promise<HierarchyLink<TypeHierarchyItem>[]> => {
+      const types =
+        options.direction === 'supertypes'
+          ? await server.getSupertypes(item)
+          : await server.getSubtypes(item);
+      return types.map((type) => ({ item: type }));
+    };
+
+    return this.buildHierarchy(
+      items,
+      options.depth ?? DEFAULT_HIERARCHY_DEPTH,
+      expand
+    );
+  }
+
+  /**
+   * Resolves a query to a position and brings the language server up to
+   * date with the session's document
+   * @param edge Edge of an anchor to use as the position
+   */
+  private async prepare(
+    sessionId: string,
+    query: SymbolQuery,
+    edge: 'start' | 'end' = 'start'
+  ): Promise<{
+    session: EditSession;
+    server: LanguageServer;
+    position: Position;
+  }> {
+    const session = await this.sessionManager.getSession(sessionId);
+    const position = this.targetResolver.resolvePosition(
+      session.document,
+      query,
+      edge
+    );
+    const server = await this.connect(session);
+
+    return { session, server, position };
+  }
+
+  /**
+   * Brings the language server up to date with a session's document, waiting
+   * for its project to load if the document was never validated
+   */
+  private async connect(session: EditSession): Promise<LanguageServer> {
+    const { document, languageId } = session;
+
+    const server = await this.lspManager.getServer(languageId);
+    await server.syncDocument(document.uri, document.getText());
+
+    if (session.state.validationState.documentVersion === 0) {
+      await this.waitForProject(session, server);
+    }
+
+    return server;
+  }
+
+  /**
+   * Waits for a never validated document's first diagnostics. Until then its
+   * project may still be loading, and the server only answers from the
+   * syntax of the file itself.
+   */
+  private async waitForProject(
+    session: EditSession,
+    server: LanguageServer
+  ): Promise<void> {
+    const { document } = session;
+
+    try {
+      const diagnostics = await server.validateDocument(
+        document.uri,
+        document.getText()
+      );
+      await this.sessionManager.updateValidationState(
+        session.id,
+        diagnostics,
+        document.version
+      );
+    } catch (error) {
+      // Answer from whatever the server has loaded
+      this.logger.warn('Project did not load before navigation', {
+        sessionId: session.id,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Expands a hierarchy depth-first from its roots. A node already among its
+   * own ancestors is marked as a cycle and not expanded again, and expansion
+   * stops once the tree reaches MAX_HIERARCHY_NODES.
+   * @param depth Levels to expand below the roots
+   * @param expand Gets the children of an item
+   */
+  private async buildHierarchy<T extends CallHierarchyItem | TypeHierarchyItem>(
+    roots: T[],
+    depth: number,
+    expand: (item: T) => Promise<HierarchyLink<T>[]>
+  ): Promise<HierarchyResult> {
+    const documents = new Map<string, TextDocument | undefined>();
+    let nodeCount = 0;
+    let truncated = false;
+
+    const visit = async (
+      { item, callSites }: HierarchyLink<T>,
+      ancestors: string[],
+      level: number
+    ): Promise<HierarchyNode> => {
+      nodeCount++;
+
+      const [location] = await this.toSourceLocations(
+        [{ uri: item.uri, range: item.selectionRange }],
+        0,
+        documents
+      );
+      // Servers may report a call site more than once
+      const uniqueCallSites = callSites && [
+        ...new Map(
+          callSites.map((site) => [JSON.stringify(site.range), site])
+        ).values(),
+      ];
+      const node: HierarchyNode = {
+        name: item.name,
+        kind: SYMBOL_KIND_NAMES.get(item.kind) ?? 'symbol',
+        detail: item.detail || undefined,
+        ...location,
+        callSites:
+          uniqueCallSites &&
+          (await this.toSourceLocations(uniqueCallSites, 0, documents)),
+      };
+
+      const { line, character } = item.selectionRange.start;
+      const key = `${location.filePath}:${line}:${character}`;
+      if (ancestors.includes(key)) {
+        node.cycle = true;
+        return node;
+      }
+      if (level >= depth) {
+        return node;
+      }
+
+      node.children = [];
+      for (const link of await expand(item)) {
+        if (nodeCount >= MAX_HIERARCHY_NODES) {
+          truncated = true;
+          break;
+        }
+        node.children.push(await visit(link, [...ancestors, key], level + 1));
+      }
+
+      return node;
+    };
+
+    const nodes: HierarchyNode[] = [];
+    for (const item of roots) {
+      nodes.push(await visit({ item }, [], 0));
+    }
+
+    this.logger.debug('Built hierarchy', { nodeCount, truncated });
+
+    return { roots: nodes, nodeCount, truncated };
+  }
+
+  /**
+   * Keeps the completions matching the identifier typed before a position,
+   * best first: those matching its case, then in the server's order
+   */
+  private rankCompletions(
+    document: TextDocument,
+    position: Position,
+    items: CompletionItem[]
+  ): CompletionItem[] {
+    const prefix = this.getTypedPrefix(document, position);
+    const getKey = (item: CompletionItem) =>
+      (item.filterText ?? item.label).replace(/^[^\w$]+/, '');
+
+    return items
+      .filter((item) =>
+        getKey(item).toLowerCase().startsWith(prefix.toLowerCase())
+      )
+      .map((item) => ({
+        item,
+        caseMatch: getKey(item).startsWith(prefix) ? 0 : 1,
+        sortText: item.sortText ?? item.label,
+      }))
+      .sort(
+        (a, b) =>
+          a.caseMatch - b.caseMatch ||
+          (a.sortText < b.sortText ? -1 : a.sortText > b.sortText ? 1 : 0) ||
+          a.item.label.localeCompare(b.item.label)
+      )
+      .map(({ item }) => item);
+  }
+
+  /**
+   * Orders symbols by how well their names match a query: exact names, then
+   * prefixes, then names containing it, then the server's fuzzy matches.
+   * Declarations come before members and variables that match as well.
+   */
+  private rankSymbols(
+    query: string,
+    symbols: SymbolInformation[]
+  ): SymbolInformation[] {
+    const lowerQuery = query.toLowerCase();
+    const getMatchRank = (name: string) => {
+      const lowerName = name.toLowerCase();
+      if (name === query) {
+        return 0;
+      }
+      if (lowerName === lowerQuery) {
+        return 1;
+      }
+      if (lowerName.startsWith(lowerQuery)) {
+        return 2;
+      }
+      return lowerName.includes(lowerQuery) ? 3 : 4;
+    };
+
+    return symbols
+      .map((symbol, index) => ({
+        symbol,
+        index,
+        matchRank: getMatchRank(symbol.name),
+        kindRank: DECLARATION_KINDS.includes(symbol.kind) ? 0 : 1,
+      }))
+      .sort(
+        (a, b) =>
+          a.matchRank - b.matchRank ||
+          a.kindRank - b.kindRank ||
+          a.index - b.index
+      )
+      .map(({ symbol }) => symbol);
+  }
+
+  /**
+   * Gets the names of the symbols that workspace symbols are declared in.
+   * Servers that leave them out are asked for the symbols of each file;
+   * files without a session are opened on the server for the lookup.
+   */
+  private async findContainerNames(
+    server: LanguageServer,
+    symbols: SymbolInformation[]
+  ): Promise<(string | undefined)[]> {
+    const fileSymbols = new Map<string, DocumentSymbol[]>();
+
+    const containerNames: (string | undefined)[] = [];
+    for (const { containerName, location } of symbols) {
+      if (containerName) {
+        containerNames.push(containerName);
+        continue;
+      }
+
+      const filePath = toFilePath(location.uri);
+      if (!fileSymbols.has(filePath)) {
+        fileSymbols.set(filePath, await this.getFileSymbols(server, filePath));
+      }
+      containerNames.push(
+        findEnclosingSymbol(fileSymbols.get(filePath)!, location.range)?.name
+      );
+    }
+
+    return containerNames;
+  }
+
+  private async getFileSymbols(
+    server: LanguageServer,
+    filePath: string
+  ): Promise<DocumentSymbol[]> {
+    const session = this.sessionManager.findSessionByPath(filePath);
+    const uri = session?.document.uri ?? filePath;
+
+    try {
+      await server.syncDocument(
+        uri,
+        session?.document.getText() ?? (await this.fs.readFile(filePath))
+      );
+      try {
+        return await server.getDocumentSymbols(uri);
+      } finally {
+        if (!session) {
+          await server.didClose(uri);
+        }
+      }
+    } catch (error) {
+      this.logger.debug('No symbols for file', {
+        filePath,
+        error: (error as Error).message,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Opens a session on the file of a reported symbol, or reuses its open one
+   * @param openResult 1-based index of the symbol
+   * @throws {NavigationError} If the symbol was not reported
+   */
+  private async openSymbolSession(
+    symbols: WorkspaceSymbolInfo[],
+    openResult: number,
+    languageId: string
+  ): Promise<SymbolSearchResult['session']> {
+    const symbol = symbols[openResult - 1];
+    if (!symbol) {
+      throw new NavigationError(
+        `Result ${openResult} not found (${symbols.length} reported)`,
+        'RESULT_NOT_FOUND',
+        { openResult, reported: symbols.length }
+      );
+    }
+
+    const session =
+      this.sessionManager.findSessionByPath(symbol.filePath) ??
+      (await this.sessionManager.createSession(symbol.filePath, languageId));
+
+    return { sessionId: session.id, filePath: session.filePath };
+  }
+
+  /**
+   * Gets the part of an identifier typed before a position
+   */
+  private getTypedPrefix(document: TextDocument, position: Position): string {
+    const line = document.getText(
+      Range.create(position.line, 0, position.line, position.character)
+    );
+    return line.match(/[\w$]*$/)![0];
+  }
+
+  /**
+   * Converts a signature, resolving parameter labels given as offsets into
+   * the signature's label
+   * @param activeParameter Active parameter reported for the whole call,
+   * used when the signature has none of its own
+   */
+  private toSignatureInfo(
+    signature: SignatureInformation,
+    activeParameter?: number | null
+  ): SignatureInfo {
+    return {
+      label: signature.label,
+      documentation:
+        signature.documentation &&
+        this.renderHoverContents(signature.documentation),
+      parameters: (signature.parameters ?? []).map((parameter) => ({
+        label:
+          typeof parameter.label === 'string'
+            ? parameter.label
+            : signature.label.slice(...parameter.label),
+        documentation:
+          parameter.documentation &&
+          this.renderHoverContents(parameter.documentation),
+      })),
+      activeParameter:
+        signature.activeParameter ?? activeParameter ?? undefined,
+    };
+  }
+
+  private toCompletionInfo(item: CompletionItem): CompletionInfo {
+    const insertText = item.textEdit?.newText ?? item.insertText ?? item.label;
+
+    return {
+      label: item.label,
+      kind: item.kind && COMPLETION_KIND_NAMES.get(item.kind),
+      detail: item.detail,
+      insertText:
+        item.insertTextFormat === InsertTextFormat.Snippet
+          ? this.stripSnippet(insertText)
+          : insertText,
+      documentation:
+        item.documentation && this.renderHoverContents(item.documentation),
+      additionalTextEdits: item.additionalTextEdits,
+    };
+  }
+
+  /**
+   * Converts snippet syntax to plain text, keeping placeholder defaults
+   */
+  private stripSnippet(snippet: string): string {
+    return snippet
+      .replace(/\$\{\d+:([^}]*)\}/g, '$1')
+      .replace(/\$\{\d+\}|\$\d+/g, '')
+      .replace(/\\([$}\\])/g, '$1');
+  }
+
+  private toLocation(definition: Location | LocationLink): Location {
+    return 'targetUri' in definition
+      ? {
+          uri: definition.targetUri,
+          range: definition.targetSelectionRange,
+        }
+      : definition;
+  }
+
+  /**
+   * Converts language server locations to file paths and ranges with
+   * excerpts. Open sessions are read from their buffers, which is what the
+   * language server sees, and other files from disk.
+   * @param documents Files already read, shared across calls
+   */
+  private async toSourceLocations(
+    locations: Location[],
+    contextLines: number,
+    documents = new Map<string, TextDocument | undefined>()
+  ): Promise<SourceLocation[]> {
+    const results: SourceLocation[] = [];
+    for (const { uri, range } of locations) {
+      const filePath = toFilePath(uri);
+
+      if (!documents.has(filePath)) {
+        documents.set(filePath, await this.readDocument(filePath));
+      }
+      const document = documents.get(filePath);
+
+      results.push({
+        filePath,
+        range,
+        excerpt: document && getExcerpt(document, range, contextLines),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Reads a file for excerpts. Files outside the allowed directories, such
+   * as library declarations, are reported without one.
+   */
+  private async readDocument(
+    filePath: string
+  ): Promise<TextDocument | undefined> {
+    const session = this.sessionManager.findSessionByPath(filePath);
+    if (session) {
+      return session.document;
+    }
+
+    try {
+      const content = await this.fs.readFile(filePath);
+      return TextDocument.create(filePath, 'plaintext', 0, content);
+    } catch (error) {
+      this.logger.debug('No excerpt for location', {
+        filePath,
+        error: (error as Error).message,
+      });
+      return undefined;
+    }
+  }
+
+  private renderHoverContents(contents: Hover['contents']): string {
+    const render = (content: MarkedString | MarkupContent): string => {
+      if (typeof content === 'string') {
+        return content;
+      }
+      if ('kind' in content) {
+        return content.value;
+      }
+      return `\`\`\`${content.language}\n${content.value}\n\`\`\``;
+    };
+
+    return (Array.isArray(contents) ? contents : [contents])
+      .map((content) => render(content).trim())
+      .filter(Boolean)
+      .join('\n\n');
+  }
+}
@@ -1,29 +1,85 @@
 // src/services/EditOperationManager.ts
 
-import { Position, Range, TextEdit } from 'vscode-languageserver-protocol';
+import { createTwoFilesPatch } from 'diff';
+import {
+  Diagnostic,
+  Position,
+  Range,
+  TextEdit,
+  WorkspaceEdit,
+} from 'vscode-languageserver-protocol';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { CodeTarget, EditOperation, EditResult } from '../types/editor.js';
-import { BaseError } from '../types/errors.js';
+import {
+  ApplyEditOptions,
+  CodeTarget,
+  DiagnosticDelta,
+  DiagnosticsMode,
+  EditOperation,
+  EditResult,
+  EditSession,
+  FileEditOperations,
+  FileEditResult,
+  FormatDocumentOptions,
+  FormatResult,
+  WorkspaceEditResult,
+} from '../types/editor.js';
+import { EditError } from '../types/errors.js';
+import { LanguageFormatOptions } from '../types/language.js';
 import { LSPManager } from '../types/lsp.js';
+import { diffDiagnostics, getErrors } from '../utils/diagnostics.js';
+import { toFilePath } from '../utils/document.js';
+import {
+  createRangeMapper,
+  groupFileEdits,
+  sortEditsDescending,
+} from '../utils/edits.js';
+import { FileSystemManager } from '../utils/fs.js';
 import { Logger } from '../utils/logger.js';
+import { TypeScriptEditBuilder } from './languages/typescriptEdits.js';
 import { SessionManager } from './SessionManager.js';
+import { TargetResolver } from './TargetResolver.js';
+import { Validator } from './Validator.js';
 
-export class EditError extends BaseError {
-  constructor(
-    message: string,
-    code: string,
-    details?: Record<string, unknown>
-  ) {
-    super(message, `EDIT_${code}`, details);
-  }
+const TYPESCRIPT_LANGUAGE_IDS = [
+  'typescript',
+  'typescriptreact',
+  'javascript',
+  'javascriptreact',
+];
+
+/**
+ * A file written as part of a workspace edit, with what is needed to report
+ * its diagnostics or roll it back
+ */
+interface WrittenFile {
+  filePath: string;
+  sessionId: string;
+  opened: boolean;
+  /** Diagnostics before the edit */
+  baseline: Diagnostic[];
+  changes: TextEdit[];
+  /** Number of history entries the edit recorded */
+  writes: number;
+  /** Maps ranges before the edit to ranges after it */
+  mapRange: (range: Range) => Range;
 }
 
 export class EditOperationManager {
+  private readonly typeScriptEditBuilder: TypeScriptEditBuilder;
+
   constructor(
     private readonly sessionManager: SessionManager,
     private readonly lspManager: LSPManager,
+    private readonly targetResolver: TargetResolver,
+    private readonly validator: Validator,
+    private readonly fs: FileSystemManager,
     private readonly logger: Logger
-  ) {}
+  ) {
+    this.typeScriptEditBuilder = new TypeScriptEditBuilder(
+      targetResolver,
+      logger
+    );
+  }
 
   /**
    * Applies an edit operation to a document
@@ -32,65 +88,610 @@ export class EditOperationManager {
     sessionId: string,
     operation: EditOperation
   ): Promise<EditResult> {
+    return this.applyEdits(sessionId, [operation]);
+  }
+
+  /**
+   * Applies a batch of edit operations as one atomic change. Every operation
+   * is written against the same document version; the batch is recorded as a
+   * single history entry and validated once.
+   * @param sessionId ID of the session to edit
+   * @param operations Operations to apply, in order
+   * @param options Expected document version, diagnostic policy and
+   * reporting mode
+   */
+  async applyEdits(
+    sessionId: string,
+    operations: EditOperation[],
+    options: ApplyEditOptions = {}
+  ): Promise<EditResult> {
+    const session = await this.sessionManager.getSession(sessionId);
+    const edits = await this.prepareEdits(
+      session,
+      operations,
+      options.documentVersion
+    );
+
+    return this.commitEdits(session, edits, options, {
+      operationTypes: operations.map((operation) => operation.type),
+    });
+  }
+
+  /**
+   * Applies text edits computed elsewhere, such as by the language server,
+   * as one history entry
+   * @param sessionId ID of the session to edit
+   * @param edits Non-overlapping edits against the current document
+   * @param options Expected document version, diagnostic policy and
+   * reporting mode
+   * @param details Describes the source of the edits in logs and errors
+   */
+  async applyTextEdits(
+    sessionId: string,
+    edits: TextEdit[],
+    options: ApplyEditOptions = {},
+    details: Record<string, unknown> = {}
+  ): Promise<EditResult> {
+    const session = await this.sessionManager.getSession(sessionId);
+    this.checkDocumentVersion(session, options.documentVersion);
+
+    return this.commitEdits(session, edits, options, details);
+  }
+
+  /**
+   * Applies workspace edits from the language server, which may change
+   * several files, as one atomic change. Each file is edited in its session,
+   * opening one if needed, and recorded as a history entry there. Every file
+   * is edited before any is validated, so references between them are
+   * checked against the change as a whole. If an edit fails or is rejected
+   * for new errors, every file is rolled back.
+   * @param sessionId ID of the session the edits were requested from
+   * @param workspaceEdits Edits to apply, in order
+   * @param options Expected version of the requesting session's document,
+   * diagnostic policy and reporting mode
+   * @param details Describes the source of the edits in logs and errors
+   * @throws {EditError} If the edits create, rename or delete files
+   */
+  async applyWorkspaceEdits(
+    sessionId: string,
+    workspaceEdits: WorkspaceEdit[],
+    options: ApplyEditOptions = {},
+    details: Record<string, unknown> = {}
+  ): Promise<WorkspaceEditResult> {
+    const session = await this.sessionManager.getSession(sessionId);
+    this.checkDocumentVersion(session, options.documentVersion);
+
+    return this.commitFileEdits(
+      groupFileEdits(workspaceEdits),
+      session,
+      options,
+      { sessionId, ...details }
+    );
+  }
+
+  /**
+   * Applies batches of edit operations to several sessions' documents as one
+   * atomic change, like a workspace edit. Each batch is written against its
+   * own document's version and recorded as a history entry in its session.
+   * @param files Sessions to edit, each with its operations
+   * @param options Diagnostic policy and reporting mode
+   * @param details Describes the source of the edits in logs and errors
+   * @throws {EditError} If a batch is stale, malformed or overlapping, or a
+   * session is listed twice
+   */
+  async applyFileOperations(
+    files: FileEditOperations[],
+    options: Omit<ApplyEditOptions, 'documentVersion'> = {},
+    details: Record<string, unknown> = {}
+  ): Promise<WorkspaceEditResult> {
+    const { sessions, fileEdits } = await this.prepareFileEdits(files);
+    return this.commitFileEdits(fileEdits, sessions[0], options, details);
+  }
+
+  /**
+   * Writes the edits of several files, opening sessions for files without
+   * one, then validates every file and applies the diagnostic policy to the
+   * change as a whole
+   * @param fileEdits Batches of edits for each file, applied in order
+   * @param origin Session whose language and policy apply to opened files
+   */
+  private async commitFileEdits(
+    fileEdits: Map<string, TextEdit[][]>,
+    origin: EditSession,
+    options: ApplyEditOptions,
+    details: Record<string, unknown>
+  ): Promise<WorkspaceEditResult> {
+    const policy = options.diagnosticPolicy ?? origin.state.diagnosticPolicy;
+    const files: WrittenFile[] = [];
+
     try {
-      const session = await this.sessionManager.getSession(sessionId);
-      const { document, languageId } = session;
+      for (const filePath of fileEdits.keys()) {
+        const existing = this.sessionManager.findSessionByPath(filePath);
+        const target =
+          existing ??
+          (await this.sessionManager.createSession(
+            filePath,
+            origin.languageId,
+            origin.state.diagnosticPolicy
+          ));
+        const file: WrittenFile = {
+          filePath,
+          sessionId: target.id,
+          opened: !existing,
+          baseline: await this.getCurrentDiagnostics(
+            await this.sessionManager.getSession(target.id)
+          ),
+          changes: [],
+          writes: 0,
+          mapRange: (range) => range,
+        };
+        files.push(file);
+      }
 
-      // Create edit
-      const edit = await this.createEdit(document, operation);
+      // Every baseline is taken before any file changes, so errors a file
+      // gets from the edits to another count as introduced
+      const batches = Array.from(fileEdits.values());
+      for (const [index, file] of files.entries()) {
+        for (const edits of batches[index]) {
+          const { before, after } = await this.writeEdits(
+            await this.sessionManager.getSession(file.sessionId),
+            edits
+          );
+          file.mapRange = this.chainRangeMappers(
+            file.mapRange,
+            createRangeMapper(before, edits, after)
+          );
+          file.changes.push(...edits);
+          file.writes++;
+        }
+      }
 
-      // Validate operation
-      await this.validateOperation(operation);
+      const results: FileEditResult[] = [];
+      for (const file of files) {
+        const { document, languageId } = await this.sessionManager.getSession(
+          file.sessionId
+        );
+        const server = await this.lspManager.getServer(languageId);
+        const diagnostics = await server.validateDocument(
+          document.uri,
+          document.getText()
+        );
+        await this.sessionManager.updateValidationState(
+          file.sessionId,
+          diagnostics,
+          document.version
+        );
 
-      // Apply edit to document
-      const newContent = TextDocument.applyEdits(document, [edit]);
-      const newVersion = document.version + 1;
+        const diagnosticDelta = diffDiagnostics(
+          file.baseline,
+          diagnostics,
+          file.mapRange
+        );
+        results.push({
+          success:
+            policy === 'allow' ||
+            getErrors(diagnosticDelta.introduced).length === 0,
+          changes: file.changes,
+          ...this.reportDiagnostics(
+            diagnostics,
+            diagnosticDelta,
+            options.diagnosticsMode
+          ),
+          filePath: file.filePath,
+          sessionId: file.sessionId,
+          opened: file.opened,
+        });
+      }
 
-      // Create new document with changes
-      const updatedDoc = TextDocument.create(
-        document.uri,
-        languageId,
-        newVersion,
-        newContent
+      const rejected = results.filter(
+        (result) => getErrors(result.diagnosticDelta!.introduced).length > 0
       );
+      if (policy === 'rejectNewErrors' && rejected.length > 0) {
+        await this.rollBackFiles(files);
+
+        this.logger.info('Rejected workspace edits that introduced errors', {
+          ...details,
+          files: rejected.map((result) => result.filePath),
+        });
 
-      // Update session with new document
-      await this.sessionManager.updateSession(sessionId, {
-        document: updatedDoc,
+        return {
+          success: false,
+          files: rejected.map((result) => ({
+            success: false,
+            diagnostics: result.diagnosticDelta!.introduced,
+            changes: [],
+            filePath: result.filePath,
+            sessionId: result.sessionId,
+            opened: result.opened,
+          })),
+          error: {
+            message: `Edit introduced new errors in ${rejected.length} file(s); every file was rolled back`,
+            code: 'EDIT_NEW_ERRORS',
+            details,
+          },
+        };
+      }
+
+      this.logger.info('Applied workspace edits', {
+        ...details,
+        files: results.map((result) => result.filePath),
       });
 
-      // Get language server
-      const server = await this.lspManager.getServer(languageId);
+      return {
+        success: results.every((result) => result.success),
+        files: results,
+      };
+    } catch (error) {
+      await this.rollBackFiles(files);
+      throw error;
+    }
+  }
+
+  /**
+   * Previews workspace edits from the language server, which may change
+   * several files, without touching any file or session. Files without a
+   * session are read from disk.
+   * @param sessionId ID of the session the edits were requested from
+   * @param workspaceEdits Edits to preview, in order
+   * @param options Expected version of the requesting session's document
+   * and reporting mode
+   * @param details Describes the source of the edits in logs
+   * @throws {EditError} If the edits create, rename or delete files
+   */
+  async previewWorkspaceEdits(
+    sessionId: string,
+    workspaceEdits: WorkspaceEdit[],
+    options: ApplyEditOptions = {},
+    details: Record<string, unknown> = {}
+  ): Promise<WorkspaceEditResult> {
+    const session = await this.sessionManager.getSession(sessionId);
+    this.checkDocumentVersion(session, options.documentVersion);
+
+    return this.previewFileEdits(
+      groupFileEdits(workspaceEdits),
+      session.languageId,
+      options,
+      { sessionId, ...details }
+    );
+  }
+
+  /**
+   * Previews batches of edit operations for several sessions' documents, as
+   * applyFileEdits would apply them, without touching any session
+   * @param files Sessions to preview edits in, each with its operations
+   * @param options Reporting mode
+   * @param details Describes the source of the edits in logs
+   * @throws {EditError} If a batch is stale, malformed or overlapping, or a
+   * session is listed twice
+   */
+  async previewFileOperations(
+    files: FileEditOperations[],
+    options: Omit<ApplyEditOptions, 'documentVersion'> = {},
+    details: Record<string, unknown> = {}
+  ): Promise<WorkspaceEditResult> {
+    const { sessions, fileEdits } = await this.prepareFileEdits(files);
+    return this.previewFileEdits(
+      fileEdits,
+      sessions[0].languageId,
+      options,
+      details
+    );
+  }
 
-      // Notify language server of the change
-      await server.didChange(document.uri, [edit], newVersion);
+  /**
+   * Simulates the edits of several files and validates them together.
+   * Files without a session are read from disk.
+   * @param fileEdits Batches of edits for each file, applied in order
+   * @param languageId Language of the files
+   */
+  private async previewFileEdits(
+    fileEdits: Map<string, TextEdit[][]>,
+    languageId: string,
+    options: ApplyEditOptions,
+    details: Record<string, unknown>
+  ): Promise<WorkspaceEditResult> {
+    const files = [];
+    for (const [filePath, batches] of fileEdits) {
+      const existing = this.sessionManager.findSessionByPath(filePath);
+      const document =
+        existing?.document ??
+        TextDocument.create(
+          filePath,
+          languageId,
+          0,
+          await this.fs.readFile(filePath)
+        );
+
+      let current = document;
+      let mapRange = (range: Range) => range;
+      for (const edits of batches) {
+        const next = TextDocument.create(
+          document.uri,
+          document.languageId,
+          current.version + 1,
+          this.validator.simulateEdits(current, edits)
+        );
+        mapRange = this.chainRangeMappers(
+          mapRange,
+          createRangeMapper(current, edits, next)
+        );
+        current = next;
+      }
+
+      files.push({
+        filePath,
+        sessionId: existing?.id,
+        document,
+        content: current.getText(),
+        changes: batches.flat(),
+        mapRange,
+      });
+    }
+
+    const simulations = await this.validator.validateSimulatedFiles(files);
+
+    this.logger.info('Previewed workspace edits', {
+      ...details,
+      files: files.map((file) => file.filePath),
+    });
+
+    const results: FileEditResult[] = files.map((file, index) => {
+      const { content, diagnostics, baseline } = simulations[index];
+      const diagnosticDelta = diffDiagnostics(
+        baseline,
+        diagnostics,
+        file.mapRange
+      );
+
+      return {
+        success: getErrors(diagnosticDelta.introduced).length === 0,
+        changes: file.changes,
+        ...this.reportDiagnostics(
+          diagnostics,
+          diagnosticDelta,
+          options.diagnosticsMode
+        ),
+        dryRun: true,
+        diff: createTwoFilesPatch(
+          file.filePath,
+          file.filePath,
+          file.document.getText(),
+          content,
+          file.sessionId ? `version ${file.document.version}` : 'on disk',
+          'preview'
+        ),
+        filePath: file.filePath,
+        sessionId: file.sessionId,
+        opened: false,
+      };
+    });
+
+    return {
+      success: results.every((result) => result.success),
+      files: results,
+    };
+  }
+
+  /**
+   * Creates the edits of batches of operations for several sessions, each
+   * against its own document, before any document is touched
+   * @returns The sessions, in order, and the edits grouped by file
+   * @throws {EditError} If a batch is stale, malformed or overlapping, or a
+   * session is listed twice
+   */
+  private async prepareFileEdits(files: FileEditOperations[]): Promise<{
+    sessions: EditSession[];
+    fileEdits: Map<string, TextEdit[][]>;
+  }> {
+    if (files.length === 0) {
+      throw new EditError('No files to edit given', 'INVALID_OPERATION');
+    }
+
+    const sessions: EditSession[] = [];
+    const fileEdits = new Map<string, TextEdit[][]>();
+    for (const file of files) {
+      const session = await this.sessionManager.getSession(file.sessionId);
+      if (fileEdits.has(session.filePath)) {
+        throw new EditError(
+          `File is listed more than once: ${session.filePath}`,
+          'DUPLICATE_FILE',
+          { sessionId: session.id, filePath: session.filePath }
+        );
+      }
+
+      // A session without operations is only validated, so errors the
+      // edits to the others cause in it are caught
+      let edits: TextEdit[] = [];
+      if (file.operations.length > 0) {
+        edits = await this.prepareEdits(
+          session,
+          file.operations,
+          file.documentVersion
+        );
+      } else {
+        this.checkDocumentVersion(session, file.documentVersion);
+      }
+      sessions.push(session);
+      fileEdits.set(session.filePath, edits.length > 0 ? [edits] : []);
+    }
+
+    return { sessions, fileEdits };
+  }
+
+  /**
+   * Reverts the files of a workspace edit that were written, restoring their
+   * diagnostics, and closes the sessions opened for it
+   */
+  private async rollBackFiles(files: WrittenFile[]): Promise<void> {
+    for (const file of [...files].reverse()) {
+      for (let write = 0; write < file.writes; write++) {
+        await this.sessionManager.discardLastEdit(file.sessionId);
+      }
+
+      if (file.opened) {
+        await this.sessionManager.closeSession(file.sessionId);
+        continue;
+      }
+
+      // The document is back to the content the baseline was reported for
+      const session = await this.sessionManager.getSession(file.sessionId);
+      await this.sessionManager.updateValidationState(
+        file.sessionId,
+        file.baseline,
+        session.document.version
+      );
+    }
+  }
+
+  /**
+   * Combines the range mappers of successive edits to the same document
+   */
+  private chainRangeMappers(
+    first: (range: Range) => Range,
+    second: (range: Range) => Range
+  ): (range: Range) => Range {
+    return (range) => second(first(range));
+  }
+
+  /**
+   * Formats a session's document, or a range of it, with the language
+   * server. The formatting is recorded as a single history entry.
+   * @param sessionId ID of the session to format
+   * @param options Range to format, formatting overrides, and the options
+   * edits are applied or previewed with
+   */
+  async formatDocument(
+    sessionId: string,
+    options: FormatDocumentOptions = {}
+  ): Promise<FormatResult> {
+    const session = await this.sessionManager.getSession(sessionId);
+    const { document, languageId } = session;
+    this.checkDocumentVersion(session, options.documentVersion);
+
+    const server = await this.lspManager.getServer(languageId);
+    // Unset overrides keep the project's options
+    const overrides = Object.fromEntries(
+      Object.entries(options.formatOptions ?? {}).filter(
+        ([, value]) => value !== undefined
+      )
+    );
+    const { options: projectOptions, skippedConfigs } =
+      await this.lspManager.getFormatOptions(session.filePath);
+    const formatOptions: LanguageFormatOptions = {
+      ...projectOptions,
+      ...overrides,
+    };
+
+    await server.syncDocument(document.uri, document.getText());
+    const edits = options.range
+      ? await server.formatRange(document.uri, options.range, formatOptions)
+      : await server.formatDocument(
+          document.uri,
+          document.getText(),
+          formatOptions
+        );
+
+    const details = {
+      formatting: options.range ? 'range' : 'document',
+      formatOptions,
+    };
+
+    const result = options.dryRun
+      ? await this.previewSessionEdits(session, edits, options, details)
+      : await this.commitEdits(session, edits, options, details);
+
+    return {
+      ...result,
+      formatOptions,
+      ...(skippedConfigs.length > 0 && { skippedConfigs }),
+    };
+  }
+
+  /**
+   * Applies edits to a session's document as one history entry, validates
+   * the result and handles new errors according to the diagnostic policy
+   * @param details Describes the source of the edits in logs and errors
+   */
+  private async commitEdits(
+    session: EditSession,
+    edits: TextEdit[],
+    options: ApplyEditOptions,
+    details: Record<string, unknown>
+  ): Promise<EditResult> {
+    const { id: sessionId, document, languageId } = session;
+    const policy = options.diagnosticPolicy ?? session.state.diagnosticPolicy;
+    let appliedEdits: TextEdit[] | undefined;
+
+    if (edits.length === 0) {
+      // Nothing to change, e.g. an import that is already present or code
+      // that is already formatted
+      return {
+        success: true,
+        diagnostics: session.state.validationState.diagnostics,
+        changes: [],
+      };
+    }
+
+    try {
+      // Diagnostics to compare the edited document against
+      const baseline = await this.getCurrentDiagnostics(session);
+
+      const { after: updatedDoc } = await this.writeEdits(session, edits);
+      appliedEdits = edits;
 
       // Wait for validation results
+      const server = await this.lspManager.getServer(languageId);
       const diagnostics = await server.validateDocument(
         document.uri,
-        newContent
+        updatedDoc.getText()
       );
+      await this.sessionManager.updateValidationState(
+        sessionId,
+        diagnostics,
+        updatedDoc.version
+      );
+
+      const diagnosticDelta = diffDiagnostics(
+        baseline,
+        diagnostics,
+        createRangeMapper(document, edits, updatedDoc)
+      );
+      const newErrors = getErrors(diagnosticDelta.introduced);
+
+      if (policy === 'rejectNewErrors' && newErrors.length > 0) {
+        return this.rejectEdits(
+          sessionId,
+          details,
+          baseline,
+          diagnosticDelta.introduced
+        );
+      }
 
-      const success = diagnostics.length === 0;
+      const success = policy === 'allow' || newErrors.length === 0;
 
-      const errorCount = diagnostics.filter((d) => d.severity === 1).length;
+      const errorCount = getErrors(diagnostics).length;
       const warningCount = diagnostics.filter((d) => d.severity === 2).length;
 
-      this.logger.info('Applied edit operation', {
+      this.logger.info('Applied edits', {
         sessionId,
-        operationType: operation.type,
+        ...details,
         success,
         summary: {
           total: diagnostics.length,
           errors: errorCount,
           warnings: warningCount,
+          newErrors: newErrors.length,
         },
       });
 
       return {
         success,
-        diagnostics,
-        changes: [edit],
+        changes: edits,
+        ...this.reportDiagnostics(
+          diagnostics,
+          diagnosticDelta,
+          options.diagnosticsMode
+        ),
       };
     } catch (error) {
       if (error instanceof Error && error.message === 'Validation timeout') {
@@ -98,10 +699,11 @@ export class EditOperationManager {
         return {
           success: false,
           diagnostics: [],
+          changes: appliedEdits,
           error: {
             message: 'Validation timeout',
             code: 'VALIDATION_TIMEOUT',
-            details: { sessionId, operation },
+            details: { sessionId, ...details, applied: !!appliedEdits },
           },
         };
       }
@@ -111,51 +713,488 @@ export class EditOperationManager {
   }
 
   /**
-   * Creates a TextEdit from an EditOperation
+   * Writes edits to a session's document, records them as one history entry
+   * and sends them to the language server
+   * @returns The document before and after the edits
+   */
+  private async writeEdits(
+    session: EditSession,
+    edits: TextEdit[]
+  ): Promise<{ before: TextDocument; after: TextDocument }> {
+    const { id: sessionId, document, languageId } = session;
+    const newVersion = document.version + 1;
+
+    // Create new document with changes
+    const updatedDoc = TextDocument.create(
+      document.uri,
+      languageId,
+      newVersion,
+      TextDocument.applyEdits(document, edits)
+    );
+
+    // Update session with new document
+    await this.sessionManager.updateSession(sessionId, {
+      document: updatedDoc,
+    });
+
+    // Record the edits so they can be undone together
+    await this.sessionManager.recordEdit(
+      sessionId,
+      document,
+      edits,
+      newVersion
+    );
+
+    // Notify language server of the change
+    const server = await this.lspManager.getServer(languageId);
+    await server.didChange(
+      document.uri,
+      sortEditsDescending(document, edits),
+      newVersion
+    );
+
+    return { before: document, after: updatedDoc };
+  }
+
+  /**
+   * Selects the diagnostics an edit result reports. In delta mode only the
+   * introduced diagnostics are listed, and pre-existing ones are counted.
    */
-  private async createEdit(
+  private reportDiagnostics(
+    diagnostics: Diagnostic[],
+    diagnosticDelta: DiagnosticDelta,
+    mode: DiagnosticsMode = 'full'
+  ): Pick<EditResult, 'diagnostics' | 'diagnosticDelta'> {
+    if (mode === 'full') {
+      return { diagnostics, diagnosticDelta };
+    }
+
+    const { preExisting, ...delta } = diagnosticDelta;
+    return { diagnostics: diagnosticDelta.introduced, diagnosticDelta: delta };
+  }
+
+  /**
+   * Reverts edits that introduced new errors
+   * @param baseline Diagnostics of the document before the edits
+   * @param introduced Diagnostics the edits introduced
+   */
+  private async rejectEdits(
+    sessionId: string,
+    details: Record<string, unknown>,
+    baseline: Diagnostic[],
+    introduced: Diagnostic[]
+  ): Promise<EditResult> {
+    await this.sessionManager.discardLastEdit(sessionId);
+
+    // The document is back to the content the baseline was reported for
+    const session = await this.sessionManager.getSession(sessionId);
+    await this.sessionManager.updateValidationState(
+      sessionId,
+      baseline,
+      session.document.version
+    );
+
+    const errorCount = getErrors(introduced).length;
+
+    this.logger.info('Rejected edits that introduced errors', {
+      sessionId,
+      ...details,
+      newErrors: errorCount,
+    });
+
+    return {
+      success: false,
+      diagnostics: introduced,
+      changes: [],
+      error: {
+        message: `Edit introduced ${errorCount} new error(s) and was reverted`,
+        code: 'EDIT_NEW_ERRORS',
+        details: { sessionId, ...details },
+      },
+    };
+  }
+
+  /**
+   * Gets the diagnostics of a session's current document, validating it
+   * unless the last validation is still current
+   */
+  private async getCurrentDiagnostics(
+    session: EditSession
+  ): Promise<Diagnostic[]> {
+    const { document, languageId, state } = session;
+
+    if (state.validationState.documentVersion === document.version) {
+      return state.validationState.diagnostics;
+    }
+
+    const server = await this.lspManager.getServer(languageId);
+    const diagnostics = await server.validateDocument(
+      document.uri,
+      document.getText()
+    );
+    await this.sessionManager.updateValidationState(
+      session.id,
+      diagnostics,
+      document.version
+    );
+
+    return diagnostics;
+  }
+
+  /**
+   * Computes the result of a batch of edit operations without applying it.
+   * The session's document and history are left untouched.
+   * @param sessionId ID of the session to preview the edit in
+   * @param operations Operations to preview, in order
+   * @param options Expected document version and reporting mode
+   */
+  async previewEdits(
+    sessionId: string,
+    operations: EditOperation[],
+    options: ApplyEditOptions = {}
+  ): Promise<EditResult> {
+    const session = await this.sessionManager.getSession(sessionId);
+    const edits = await this.prepareEdits(
+      session,
+      operations,
+      options.documentVersion
+    );
+
+    return this.previewSessionEdits(session, edits, options, {
+      operationTypes: operations.map((operation) => operation.type),
+    });
+  }
+
+  /**
+   * Computes the result of text edits computed elsewhere without applying
+   * them. The session's document and history are left untouched.
+   * @param sessionId ID of the session to preview the edits in
+   * @param edits Non-overlapping edits against the current document
+   * @param options Expected document version and reporting mode
+   * @param details Describes the source of the edits in logs
+   */
+  async previewTextEdits(
+    sessionId: string,
+    edits: TextEdit[],
+    options: ApplyEditOptions = {},
+    details: Record<string, unknown> = {}
+  ): Promise<EditResult> {
+    const session = await this.sessionManager.getSession(sessionId);
+    this.checkDocumentVersion(session, options.documentVersion);
+
+    return this.previewSessionEdits(session, edits, options, details);
+  }
+
+  /**
+   * Computes the result of applying edits to a session's document, with a
+   * diff and the diagnostics the edits would introduce or resolve
+   * @param details Describes the source of the edits in logs
+   */
+  private async previewSessionEdits(
+    session: EditSession,
+    edits: TextEdit[],
+    options: ApplyEditOptions,
+    details: Record<string, unknown>
+  ): Promise<EditResult> {
+    const { document, filePath } = session;
+
+    const { content, diagnostics, baseline } =
+      await this.validator.validateSimulatedEdits(document, edits);
+
+    this.logger.info('Previewed edits', {
+      sessionId: session.id,
+      ...details,
+      changeCount: edits.length,
+    });
+
+    const diagnosticDelta = diffDiagnostics(
+      baseline,
+      diagnostics,
+      createRangeMapper(
+        document,
+        edits,
+        TextDocument.create(
+          document.uri,
+          document.languageId,
+          document.version + 1,
+          content
+        )
+      )
+    );
+
+    return {
+      success: getErrors(diagnosticDelta.introduced).length === 0,
+      changes: edits,
+      ...this.reportDiagnostics(
+        diagnostics,
+        diagnosticDelta,
+        options.diagnosticsMode
+      ),
+      dryRun: true,
+      diff: createTwoFilesPatch(
+        filePath,
+        filePath,
+        document.getText(),
+        content,
+        `version ${document.version}`,
+        'preview'
+      ),
+    };
+  }
+
+  /**
+   * Validates a batch of operations and creates its edits, without touching
+   * the document
+   * @throws {EditError} If the batch is stale, malformed or overlapping
+   */
+  private async prepareEdits(
+    session: EditSession,
+    operations: EditOperation[],
+    documentVersion?: number
+  ): Promise<TextEdit[]> {
+    const { document } = session;
+    this.checkDocumentVersion(session, documentVersion);
+
+    if (operations.length === 0) {
+      throw new EditError('No edit operations given', 'INVALID_OPERATION', {
+        sessionId: session.id,
+      });
+    }
+
+    // Validate and create every edit before touching the document
+    const edits: TextEdit[] = [];
+    const editOperations: number[] = [];
+    for (const [index, operation] of operations.entries()) {
+      await this.validateOperation(operation);
+      for (const edit of await this.createEdits(document, operation)) {
+        edits.push(edit);
+        editOperations.push(index);
+      }
+    }
+
+    this.checkOverlaps(document, edits, editOperations, operations);
+
+    return edits;
+  }
+
+  /**
+   * Rejects changes written against a version other than the current one
+   * @throws {EditError} If the versions differ
+   */
+  checkDocumentVersion(session: EditSession, documentVersion?: number): void {
+    const { document } = session;
+
+    if (documentVersion !== undefined && documentVersion !== document.version) {
+      throw new EditError(
+        `Document version mismatch: expected ${documentVersion}, found ${document.version}`,
+        'VERSION_MISMATCH',
+        {
+          sessionId: session.id,
+          expected: documentVersion,
+          actual: document.version,
+        }
+      );
+    }
+  }
+
+  /**
+   * Rejects batches whose edits overlap each other
+   * @param editOperations Index of the operation that produced each edit
+   */
+  private checkOverlaps(
+    document: TextDocument,
+    edits: TextEdit[],
+    editOperations: number[],
+    operations: EditOperation[]
+  ): void {
+    // Edits starting at the same offset keep their order, as they do when
+    // TextDocument.applyEdits applies them, so an insertion listed after a
+    // replacement at the same start is reported here rather than failing there
+    const sorted = edits
+      .map((edit, index) => ({
+        operation: editOperations[index],
+        start: document.offsetAt(edit.range.start),
+        end: document.offsetAt(edit.range.end),
+      }))
+      .sort((a, b) => a.start - b.start);
+
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1];
+      const current = sorted[i];
+
+      if (current.start < previous.end) {
+        throw new EditError(
+          previous.operation === current.operation
+            ? `Edit operation ${current.operation} produces overlapping edits`
+            : `Edit operations ${previous.operation} and ${current.operation} overlap`,
+          'OVERLAPPING_EDITS',
+          {
+            operations: [
+              operations[previous.operation],
+              operations[current.operation],
+            ],
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Creates the TextEdits for an EditOperation
+   */
+  private async createEdits(
     document: TextDocument,
     operation: EditOperation
-  ): Promise<TextEdit> {
+  ): Promise<TextEdit[]> {
     switch (operation.type) {
-      case 'insert':
-        if (!operation.position || !operation.content) {
+      case 'insert': {
+        // Anchored and targeted inserts go right after the matched text
+        const position =
+          operation.position ??
+          (await this.resolveRange(document, operation))?.end;
+        if (!position || !operation.content) {
           throw new EditError(
             'Missing required fields for insert operation',
             'INVALID_OPERATION',
             { operation }
           );
         }
-        return {
-          range: Range.create(operation.position, operation.position),
-          newText: operation.content,
-        };
+        return [
+          {
+            range: Range.create(position, position),
+            newText: operation.content,
+          },
+        ];
+      }
 
-      case 'delete':
-        if (!operation.range) {
+      case 'delete': {
+        const range = await this.resolveRange(document, operation);
+        if (!range) {
           throw new EditError(
             'Missing range for delete operation',
             'INVALID_OPERATION',
             { operation }
           );
         }
-        return {
-          range: operation.range,
-          newText: '',
-        };
+        return [
+          {
+            range,
+            newText: '',
+          },
+        ];
+      }
 
-      case 'replace':
-        if (!operation.range || !operation.content) {
+      case 'replace': {
+        const range = await this.resolveRange(document, operation);
+        if (!range || !operation.content) {
           throw new EditError(
             'Missing required fields for replace operation',
             'INVALID_OPERATION',
             { operation }
           );
         }
-        return {
-          range: operation.range,
-          newText: operation.content,
-        };
+        return [
+          {
+            range,
+            newText: operation.content,
+          },
+        ];
+      }
+
+      case 'move': {
+        const range = await this.resolveRange(document, operation);
+        if (!range || !operation.position) {
+          throw new EditError(
+            'Missing required fields for move operation',
+            'INVALID_OPERATION',
+            { operation }
+          );
+        }
+
+        const destination = document.offsetAt(operation.position);
+        if (
+          destination > document.offsetAt(range.start) &&
+          destination < document.offsetAt(range.end)
+        ) {
+          throw new EditError(
+            'Cannot move text into itself',
+            'INVALID_OPERATION',
+            { operation }
+          );
+        }
+
+        // The insertion comes first, so a move to the start of the range
+        // doesn't overlap the deletion
+        return [
+          {
+            range: Range.create(operation.position, operation.position),
+            newText: document.getText(range),
+          },
+          { range, newText: '' },
+        ];
+      }
+
+      case 'wrap': {
+        const range = await this.resolveRange(document, operation);
+        if (!range || !operation.wrapper) {
+          throw new EditError(
+            'Missing required fields for wrap operation',
+            'INVALID_OPERATION',
+            { operation }
+          );
+        }
+        return [
+          {
+            range,
+            newText:
+              operation.wrapper.before +
+              document.getText(range) +
+              operation.wrapper.after,
+          },
+        ];
+      }
+
+      case 'addImport':
+        if (!operation.importSpec) {
+          throw new EditError(
+            'Missing importSpec for addImport operation',
+            'INVALID_OPERATION',
+            { operation }
+          );
+        }
+        return this.getStructuralEditBuilder(
+          document,
+          operation
+        ).buildAddImport(document, operation.importSpec);
+
+      case 'addProp':
+        if (!operation.target || !operation.prop) {
+          throw new EditError(
+            'Missing required fields for addProp operation',
+            'INVALID_OPERATION',
+            { operation }
+          );
+        }
+        return this.getStructuralEditBuilder(document, operation).buildAddProp(
+          document,
+          operation.target,
+          operation.prop
+        );
+
+      case 'addHook':
+        if (!operation.target || !operation.content) {
+          throw new EditError(
+            'Missing required fields for addHook operation',
+            'INVALID_OPERATION',
+            { operation }
+          );
+        }
+        return this.getStructuralEditBuilder(document, operation).buildAddHook(
+          document,
+          operation.target,
+          operation.content,
+          operation.importSpec
+        );
 
       default:
         throw new EditError(
@@ -166,6 +1205,42 @@ export class EditOperationManager {
     }
   }
 
+  /**
+   * Resolves the range an operation acts on from its range, anchor or target
+   */
+  private async resolveRange(
+    document: TextDocument,
+    operation: EditOperation
+  ): Promise<Range | undefined> {
+    if (operation.range) {
+      return operation.range;
+    }
+    if (operation.anchor) {
+      return this.targetResolver.resolveAnchor(document, operation.anchor);
+    }
+    if (operation.target) {
+      return this.targetResolver.resolveTarget(document, operation.target);
+    }
+    return undefined;
+  }
+
+  /**
+   * Gets the builder for structural operations in the document's language
+   */
+  private getStructuralEditBuilder(
+    document: TextDocument,
+    operation: EditOperation
+  ): TypeScriptEditBuilder {
+    if (!TYPESCRIPT_LANGUAGE_IDS.includes(document.languageId)) {
+      throw new EditError(
+        `Operation ${operation.type} is not supported for ${document.languageId}`,
+        'UNSUPPORTED_OPERATION',
+        { operation, languageId: document.languageId }
+      );
+    }
+    return this.typeScriptEditBuilder;
+  }
+
   /**
    * Validates an edit operation before applying it
    */
@@ -179,7 +1254,9 @@ export class EditOperationManager {
 
     // Validate content for operations that require it
     if (
-      (operation.type === 'insert' || operation.type === 'replace') &&
+      (operation.type === 'insert' ||
+        operation.type === 'replace' ||
+        operation.type === 'addHook') &&
       !operation.content
     ) {
       throw new EditError(
@@ -190,7 +1267,13 @@ export class EditOperationManager {
     }
 
     // Validate position/range
-    if (operation.type === 'insert' && !operation.position) {
+    const hasSource = !!(
+      operation.range ||
+      operation.anchor ||
+      operation.target
+    );
+
+    if (operation.type === 'insert' && !operation.position && !hasSource) {
       throw new EditError(
         'Missing position for insert operation',
         'INVALID_OPERATION',
@@ -199,12 +1282,34 @@ export class EditOperationManager {
     }
 
     if (
-      (operation.type === 'delete' || operation.type === 'replace') &&
-      !operation.range
+      (operation.type === 'delete' ||
+        operation.type === 'replace' ||
+        operation.type === 'move' ||
+        operation.type === 'wrap') &&
+      !hasSource
     ) {
       throw new EditError('Missing range for operation', 'INVALID_OPERATION', {
         operation,
       });
     }
+
+    if (operation.type === 'move' && !operation.position) {
+      throw new EditError(
+        'Missing destination position for move operation',
+        'INVALID_OPERATION',
+        { operation }
+      );
+    }
+
+    if (
+      (operation.type === 'addProp' || operation.type === 'addHook') &&
+      !operation.target
+    ) {
+      throw new EditError(
+        `Missing component target for ${operation.type} operation`,
+        'INVALID_OPERATION',
+        { operation }
+      );
+    }
   }
 }
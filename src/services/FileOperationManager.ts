@@ -0,0 +1,233 @@
+// src/services/FileOperationManager.ts
+import { WorkspaceEdit } from 'vscode-languageserver-protocol';
+import {
+  ApplyEditOptions,
+  DiagnosticPolicy,
+  EditSession,
+  FileOperationResult,
+  HistoryEntryRef,
+  WorkspaceEditResult,
+} from '../types/editor.js';
+import { SessionError } from '../types/errors.js';
+import { LSPManager } from '../types/lsp.js';
+import { groupFileEdits } from '../utils/edits.js';
+import { FileSystemManager } from '../utils/fs.js';
+import { Logger } from '../utils/logger.js';
+import { EditOperationManager } from './EditOperationManager.js';
+import { SessionManager } from './SessionManager.js';
+
+/**
+ * Creates, deletes and renames files. Each operation is carried out on disk
+ * at once and recorded in the history of the session editing the file, so
+ * undoing it there puts the file back.
+ */
+export class FileOperationManager {
+  constructor(
+    private readonly sessionManager: SessionManager,
+    private readonly editManager: EditOperationManager,
+    private readonly lspManager: LSPManager,
+    private readonly fs: FileSystemManager,
+    private readonly logger: Logger,
+    private readonly allowedDirectories: string[]
+  ) {}
+
+  /**
+   * Creates a file and opens a session on it. Undoing the session's first
+   * entry deletes the file again.
+   * @param filePath Path of the file to create
+   * @param languageId Language of the file
+   * @param content Text to create the file with
+   * @param diagnosticPolicy How edits that introduce new errors are handled
+   * @throws {SessionError} If the file already exists
+   */
+  async createFile(
+    filePath: string,
+    languageId: string,
+    content: string = '',
+    diagnosticPolicy: DiagnosticPolicy = 'warn'
+  ): Promise<FileOperationResult> {
+    const validatedPath = await this.fs.validatePath(
+      filePath,
+      this.allowedDirectories
+    );
+
+    if (await this.fs.exists(validatedPath)) {
+      throw new SessionError(
+        `File already exists: ${filePath}`,
+        'FILE_EXISTS',
+        {
+          filePath,
+        }
+      );
+    }
+
+    await this.fs.writeFile(validatedPath, content);
+
+    let session: EditSession;
+    try {
+      session = await this.sessionManager.createSession(
+        validatedPath,
+        languageId,
+        diagnosticPolicy
+      );
+    } catch (error) {
+      await this.fs.unlink(validatedPath);
+      throw error;
+    }
+
+    await this.sessionManager.recordEdit(
+      session.id,
+      session.document,
+      [],
+      session.document.version,
+      { kind: 'create', filePath: validatedPath, content }
+    );
+
+    // Open the file on the server, so other files can import it right away
+    const server = await this.lspManager.getServer(languageId);
+    await server.syncDocument(session.document.uri, content);
+
+    this.logger.info('Created file', {
+      sessionId: session.id,
+      filePath: validatedPath,
+    });
+
+    return this.describeResult(session.id);
+  }
+
+  /**
+   * Deletes a session's file. The session stays open with the file's text,
+   * so undoing the deletion writes the file back as it was on disk.
+   * @param sessionId ID of the session editing the file
+   * @throws {SessionError} If the file changed on disk since the session
+   * last read it
+   */
+  async deleteFile(sessionId: string): Promise<FileOperationResult> {
+    const session = await this.sessionManager.getSession(sessionId);
+
+    await this.sessionManager.performFileOperation(sessionId, {
+      kind: 'delete',
+      filePath: session.filePath,
+      content: session.state.diskState.content,
+    });
+
+    return this.describeResult(sessionId);
+  }
+
+  /**
+   * Renames a session's file, and updates the imports of it in other files
+   * and its own imports as the language server suggests. Files without a
+   * session are opened in one, as for a symbol rename. Undoing the rename in
+   * the session moves the file back and undoes the import updates.
+   * @param sessionId ID of the session editing the file
+   * @param newPath Path to move the file to
+   * @param options Diagnostic policy and reporting mode for the import
+   * updates; if they are rejected, the rename is rolled back
+   * @throws {SessionError} If a file exists at the new path
+   */
+  async renameFile(
+    sessionId: string,
+    newPath: string,
+    options: Omit<ApplyEditOptions, 'documentVersion'> = {}
+  ): Promise<FileOperationResult> {
+    const session = await this.sessionManager.getSession(sessionId);
+    const { filePath, document, languageId } = session;
+    const validatedPath = await this.fs.validatePath(
+      newPath,
+      this.allowedDirectories
+    );
+
+    // The server computes the edits from the project as it is before the
+    // move, with the session's current text
+    const server = await this.lspManager.getServer(languageId);
+    await server.syncDocument(document.uri, document.getText());
+    const workspaceEdit = await server.willRenameFiles(
+      document.uri,
+      validatedPath
+    );
+
+    const fileEdits = groupFileEdits(workspaceEdit ? [workspaceEdit] : []);
+    const ownEdits = (fileEdits.get(filePath) ?? []).flat();
+    fileEdits.delete(filePath);
+
+    await this.sessionManager.performFileOperation(
+      sessionId,
+      { kind: 'rename', filePath, newPath: validatedPath },
+      ownEdits
+    );
+
+    if (fileEdits.size === 0) {
+      return this.describeResult(sessionId);
+    }
+
+    const importUpdates: WorkspaceEdit = {
+      changes: Object.fromEntries(
+        Array.from(fileEdits, ([path, batches]) => [path, batches.flat()])
+      ),
+    };
+    const details = { renameFile: filePath, newPath: validatedPath };
+
+    let result: WorkspaceEditResult;
+    try {
+      result = await this.editManager.applyWorkspaceEdits(
+        sessionId,
+        [importUpdates],
+        options,
+        details
+      );
+    } catch (error) {
+      await this.sessionManager.discardLastEdit(sessionId);
+      throw error;
+    }
+
+    if (result.error) {
+      await this.sessionManager.discardLastEdit(sessionId);
+      return {
+        ...(await this.describeResult(sessionId)),
+        success: false,
+        files: result.files,
+        error: {
+          ...result.error,
+          message: `${result.error.message}; the file was not renamed`,
+        },
+      };
+    }
+
+    const linkedEdits: HistoryEntryRef[] = [];
+    for (const file of result.files) {
+      if (!file.sessionId || !file.changes?.length) {
+        continue;
+      }
+
+      const { editHistory } = (
+        await this.sessionManager.getSession(file.sessionId)
+      ).state;
+      linkedEdits.push({
+        sessionId: file.sessionId,
+        filePath: file.filePath,
+        operation: editHistory.operations[editHistory.currentIndex],
+      });
+    }
+    await this.sessionManager.linkEdits(sessionId, linkedEdits);
+
+    return {
+      ...(await this.describeResult(sessionId)),
+      success: result.success,
+      files: result.files,
+    };
+  }
+
+  private async describeResult(
+    sessionId: string
+  ): Promise<FileOperationResult> {
+    const { filePath, document } =
+      await this.sessionManager.getSession(sessionId);
+
+    return {
+      success: true,
+      sessionId,
+      filePath,
+      documentVersion: document.version,
+    };
+  }
+}
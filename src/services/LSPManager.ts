@@ -2,7 +2,21 @@
 import { ChildProcess, spawn } from 'child_process';
 import path from 'path';
 import { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { resolveConfig, resolveConfigFile } from 'prettier';
 import {
+  ApplyWorkspaceEditRequest,
+  CallHierarchyIncomingCall,
+  CallHierarchyIncomingCallsRequest,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CallHierarchyOutgoingCallsRequest,
+  CallHierarchyPrepareRequest,
+  CodeAction,
+  CodeActionRequest,
+  Command,
+  CompletionItem,
+  CompletionRequest,
+  CompletionResolveRequest,
   createProtocolConnection,
   DefinitionRequest,
   Diagnostic,
@@ -10,13 +24,36 @@ import {
   DidCloseTextDocumentNotification,
   DidOpenTextDocumentNotification,
   DocumentFormattingRequest,
+  DocumentRangeFormattingRequest,
+  DocumentSymbol,
+  DocumentSymbolRequest,
+  ExecuteCommandRequest,
+  Hover,
+  HoverRequest,
   InitializeParams,
   InitializeRequest,
+  InlayHint,
+  InlayHintRequest,
   LocationLink,
   Position,
+  PrepareRenameRequest,
+  PrepareRenameResult,
   ProtocolConnection,
+  Range,
+  ReferencesRequest,
+  RenameRequest,
   ServerCapabilities,
+  SignatureHelp,
+  SignatureHelpRequest,
+  SymbolInformation,
   TextEdit,
+  TypeHierarchyItem,
+  TypeHierarchyPrepareRequest,
+  TypeHierarchySubtypesRequest,
+  TypeHierarchySupertypesRequest,
+  WillRenameFilesRequest,
+  WorkspaceEdit,
+  WorkspaceSymbolRequest,
 } from 'vscode-languageserver-protocol';
 import {
   StreamMessageReader,
@@ -24,14 +61,27 @@ import {
 } from 'vscode-languageserver-protocol/node.js';
 import { Location } from 'vscode-languageserver-types';
 import { BaseError } from '../types/errors.js';
-import { ProjectContext, TypeScriptOptions } from '../types/language.js';
+import {
+  LanguageFormatOptions,
+  ProjectContext,
+  ResolvedFormatOptions,
+  SkippedFormatConfig,
+  TypeScriptOptions,
+} from '../types/language.js';
 import {
   LanguageServer,
   LSPManager,
+  ServerStateListener,
   TypeScriptServerInitializationOptions,
 } from '../types/lsp.js';
+import {
+  editorConfigToFormatOptions,
+  parseEditorConfig,
+  parsePrettierConfig,
+} from '../utils/formatting.js';
 import { FileSystemManager } from '../utils/fs.js';
 import { Logger } from '../utils/logger.js';
+import { toDocumentSymbols, toSymbolInformation } from '../utils/symbols.js';
 import { TypeScriptServer } from './languages/typescript.js';
 
 /**
@@ -78,6 +128,9 @@ const DEFAULT_SERVER_CONFIGS: Record<
         includeInlayParameterNameHints: 'all',
         includeInlayPropertyDeclarationTypeHints: true,
         includeInlayFunctionLikeReturnTypeHints: true,
+        includeInlayFunctionParameterTypeHints: true,
+        includeInlayVariableTypeHints: true,
+        includeInlayEnumMemberValueHints: true,
       },
     },
   },
@@ -91,11 +144,29 @@ const DEFAULT_SERVER_CONFIGS: Record<
   },
 };
 
+/**
+ * Formatting used where a project does not configure its own
+ */
+const DEFAULT_FORMAT_OPTIONS: LanguageFormatOptions = {
+  tabSize: 2,
+  insertSpaces: true,
+};
+
+/**
+ * Extensions of the source files a language's project is loaded from
+ */
+const SOURCE_EXTENSIONS: Record<string, string[]> = {
+  typescript: ['.ts', '.tsx'],
+  javascript: ['.js', '.jsx'],
+};
+
 export class LSPManagerImpl implements LSPManager {
   private servers: Map<string, LanguageServer>;
   private languageServers: Map<string, TypeScriptServer>;
   private configs: Map<string, LSPServerConfig>;
   private processes: Map<string, ChildProcess>;
+  private projectContexts: Map<string, ProjectContext>;
+  private stateListeners: Set<ServerStateListener>;
 
   constructor(
     private readonly logger: Logger,
@@ -106,6 +177,8 @@ export class LSPManagerImpl implements LSPManager {
     this.servers = new Map();
     this.languageServers = new Map();
     this.configs = new Map();
+    this.projectContexts = new Map();
+    this.stateListeners = new Set();
 
     // Register default TypeScript configuration
     this.configs.set('typescript', {
@@ -118,6 +191,9 @@ export class LSPManagerImpl implements LSPManager {
           includeInlayParameterNameHints: 'all',
           includeInlayPropertyDeclarationTypeHints: true,
           includeInlayFunctionLikeReturnTypeHints: true,
+          includeInlayFunctionParameterTypeHints: true,
+          includeInlayVariableTypeHints: true,
+          includeInlayEnumMemberValueHints: true,
         },
       },
     });
@@ -202,6 +278,7 @@ export class LSPManagerImpl implements LSPManager {
       this.servers.set(language, server);
 
       this.logger.info(`Started LSP server for ${language}`);
+      this.notifyServerState(language, true);
     } catch (error) {
       const details =
         error instanceof Error
@@ -228,6 +305,7 @@ export class LSPManagerImpl implements LSPManager {
           error: error instanceof Error ? error.stack : error,
         }
       );
+      this.notifyServerState(language, false, error as Error);
       throw new LSPError(
         `Failed to start server for ${language}`,
         'START_FAILED',
@@ -267,6 +345,20 @@ export class LSPManagerImpl implements LSPManager {
         await tsServer.initialize();
         this.languageServers.set(language, tsServer);
 
+        // A server that exits unasked is started again on next use
+        tsServer.onExit((code) => {
+          if (this.languageServers.get(language) !== tsServer) {
+            return;
+          }
+          this.languageServers.delete(language);
+          this.servers.delete(language);
+          this.notifyServerState(
+            language,
+            false,
+            new Error(`Language server exited with code ${code}`)
+          );
+        });
+
         // Return LanguageServer interface implementation
         return {
           async initialize(): Promise<void> {
@@ -286,9 +378,18 @@ export class LSPManagerImpl implements LSPManager {
 
           async formatDocument(
             uri: string,
-            content: string
+            content: string,
+            options: LanguageFormatOptions
+          ): Promise<TextEdit[]> {
+            return tsServer.formatDocument(uri, options);
+          },
+
+          async formatRange(
+            uri: string,
+            range: Range,
+            options: LanguageFormatOptions
           ): Promise<TextEdit[]> {
-            return tsServer.formatDocument(uri);
+            return tsServer.formatRange(uri, range, options);
           },
 
           async getDefinition(
@@ -298,6 +399,80 @@ export class LSPManagerImpl implements LSPManager {
             return tsServer.getDefinition(uri, position);
           },
 
+          async getReferences(
+            uri: string,
+            position: Position,
+            includeDeclaration: boolean
+          ): Promise<Location[]> {
+            return tsServer.getReferences(uri, position, includeDeclaration);
+          },
+
+          async getHover(
+            uri: string,
+            position: Position
+          ): Promise<Hover | null> {
+            return tsServer.getHover(uri, position);
+          },
+
+          async getSignatureHelp(
+            uri: string,
+            position: Position
+          ): Promise<SignatureHelp | null> {
+            return tsServer.getSignatureHelp(uri, position);
+          },
+
+          async getInlayHints(uri: string, range: Range): Promise<InlayHint[]> {
+            return tsServer.getInlayHints(uri, range);
+          },
+
+          async getCompletions(
+            uri: string,
+            position: Position
+          ): Promise<CompletionItem[]> {
+            return tsServer.getCompletions(uri, position);
+          },
+
+          async resolveCompletion(
+            item: CompletionItem
+          ): Promise<CompletionItem> {
+            return tsServer.resolveCompletion(item);
+          },
+
+          async getCodeActions(
+            uri: string,
+            range: Range,
+            diagnostics: Diagnostic[],
+            only?: string[]
+          ): Promise<(CodeAction | Command)[]> {
+            return tsServer.getCodeActions(uri, range, diagnostics, only);
+          },
+
+          async executeCommand(command: Command): Promise<WorkspaceEdit[]> {
+            return tsServer.executeCommand(command);
+          },
+
+          async prepareRename(
+            uri: string,
+            position: Position
+          ): Promise<PrepareRenameResult | null> {
+            return tsServer.prepareRename(uri, position);
+          },
+
+          async rename(
+            uri: string,
+            position: Position,
+            newName: string
+          ): Promise<WorkspaceEdit | null> {
+            return tsServer.rename(uri, position, newName);
+          },
+
+          async willRenameFiles(
+            oldUri: string,
+            newUri: string
+          ): Promise<WorkspaceEdit | null> {
+            return tsServer.willRenameFiles(oldUri, newUri);
+          },
+
           async didOpen(
             uri: string,
             content: string,
@@ -317,6 +492,55 @@ export class LSPManagerImpl implements LSPManager {
           async didClose(uri: string): Promise<void> {
             return tsServer.didClose(uri);
           },
+
+          async syncDocument(uri: string, content: string): Promise<void> {
+            return tsServer.syncDocument(uri, content);
+          },
+
+          async getDocumentSymbols(uri: string): Promise<DocumentSymbol[]> {
+            return tsServer.getDocumentSymbols(uri);
+          },
+
+          getWorkspaceSymbols: (query: string) =>
+            this.getTypeScriptWorkspaceSymbols(language, tsServer, query),
+
+          async prepareCallHierarchy(
+            uri: string,
+            position: Position
+          ): Promise<CallHierarchyItem[]> {
+            return tsServer.prepareCallHierarchy(uri, position);
+          },
+
+          async getIncomingCalls(
+            item: CallHierarchyItem
+          ): Promise<CallHierarchyIncomingCall[]> {
+            return tsServer.getIncomingCalls(item);
+          },
+
+          async getOutgoingCalls(
+            item: CallHierarchyItem
+          ): Promise<CallHierarchyOutgoingCall[]> {
+            return tsServer.getOutgoingCalls(item);
+          },
+
+          async prepareTypeHierarchy(
+            uri: string,
+            position: Position
+          ): Promise<TypeHierarchyItem[]> {
+            return tsServer.prepareTypeHierarchy(uri, position);
+          },
+
+          async getSupertypes(
+            item: TypeHierarchyItem
+          ): Promise<TypeHierarchyItem[]> {
+            return tsServer.getSupertypes(item);
+          },
+
+          async getSubtypes(
+            item: TypeHierarchyItem
+          ): Promise<TypeHierarchyItem[]> {
+            return tsServer.getSubtypes(item);
+          },
         };
       }
 
@@ -356,7 +580,14 @@ export class LSPManagerImpl implements LSPManager {
     // Handle server exit
     serverProcess.on('exit', (code) => {
       this.logger.info(`LSP server for ${language} exited with code ${code}`);
-      this.servers.delete(language);
+      // Servers stopped on request are already removed
+      if (this.servers.delete(language)) {
+        this.notifyServerState(
+          language,
+          false,
+          new Error(`Language server exited with code ${code}`)
+        );
+      }
     });
 
     // Check if process started successfully
@@ -368,6 +599,19 @@ export class LSPManagerImpl implements LSPManager {
       );
     }
 
+    // Versions of documents opened on this server
+    const documentVersions = new Map<string, number>();
+
+    // Edits requested through workspace/applyEdit by the running command
+    let requestedWorkspaceEdits: WorkspaceEdit[] | undefined;
+    connection.onRequest(ApplyWorkspaceEditRequest.type, (params) => {
+      if (!requestedWorkspaceEdits) {
+        return { applied: false, failureReason: 'No command is running' };
+      }
+      requestedWorkspaceEdits.push(params.edit);
+      return { applied: true };
+    });
+
     try {
       connection.listen();
 
@@ -397,10 +641,63 @@ export class LSPManagerImpl implements LSPManager {
             diagnostic: {
               dynamicRegistration: true,
             },
+            hover: {
+              dynamicRegistration: true,
+              contentFormat: ['markdown', 'plaintext'],
+            },
+            signatureHelp: {
+              dynamicRegistration: true,
+              signatureInformation: {
+                documentationFormat: ['markdown', 'plaintext'],
+                parameterInformation: {
+                  labelOffsetSupport: true,
+                },
+                activeParameterSupport: true,
+              },
+            },
+            inlayHint: {
+              dynamicRegistration: true,
+            },
+            callHierarchy: {
+              dynamicRegistration: true,
+            },
+            typeHierarchy: {
+              dynamicRegistration: true,
+            },
+            references: {
+              dynamicRegistration: true,
+            },
+            rename: {
+              dynamicRegistration: true,
+              prepareSupport: true,
+            },
+            codeAction: {
+              dynamicRegistration: true,
+              isPreferredSupport: true,
+              codeActionLiteralSupport: {
+                codeActionKind: {
+                  valueSet: ['quickfix', 'refactor', 'source'],
+                },
+              },
+            },
+            documentSymbol: {
+              dynamicRegistration: true,
+              hierarchicalDocumentSymbolSupport: true,
+            },
           },
           workspace: {
             workspaceFolders: true,
             configuration: true,
+            applyEdit: true,
+            workspaceEdit: {
+              documentChanges: true,
+            },
+            symbol: {
+              dynamicRegistration: true,
+            },
+            fileOperations: {
+              willRename: true,
+            },
           },
         },
         initializationOptions: config.initializationOptions,
@@ -447,6 +744,7 @@ export class LSPManagerImpl implements LSPManager {
           content: string,
           version: number
         ): Promise<void> {
+          documentVersions.set(uri, version);
           await connection.sendNotification(
             DidOpenTextDocumentNotification.type,
             {
@@ -465,6 +763,7 @@ export class LSPManagerImpl implements LSPManager {
           changes: TextEdit[],
           version: number
         ): Promise<void> {
+          documentVersions.set(uri, version);
           await connection.sendNotification(
             DidChangeTextDocumentNotification.type,
             {
@@ -481,6 +780,7 @@ export class LSPManagerImpl implements LSPManager {
         },
 
         async didClose(uri: string): Promise<void> {
+          documentVersions.delete(uri);
           await connection.sendNotification(
             DidCloseTextDocumentNotification.type,
             {
@@ -489,18 +789,60 @@ export class LSPManagerImpl implements LSPManager {
           );
         },
 
+        async syncDocument(uri: string, content: string): Promise<void> {
+          const version = documentVersions.get(uri);
+          if (version === undefined) {
+            documentVersions.set(uri, 1);
+            await connection.sendNotification(
+              DidOpenTextDocumentNotification.type,
+              {
+                textDocument: {
+                  uri,
+                  languageId: language,
+                  version: 1,
+                  text: content,
+                },
+              }
+            );
+            return;
+          }
+
+          documentVersions.set(uri, version + 1);
+          await connection.sendNotification(
+            DidChangeTextDocumentNotification.type,
+            {
+              textDocument: { uri, version: version + 1 },
+              contentChanges: [{ text: content }],
+            }
+          );
+        },
+
         async formatDocument(
           uri: string,
-          content: string
+          content: string,
+          options: LanguageFormatOptions
         ): Promise<TextEdit[]> {
           const result = await connection.sendRequest(
             DocumentFormattingRequest.type,
             {
               textDocument: { uri },
-              options: {
-                tabSize: 2,
-                insertSpaces: true,
-              },
+              options: { ...options },
+            }
+          );
+          return Array.isArray(result) ? result : [];
+        },
+
+        async formatRange(
+          uri: string,
+          range: Range,
+          options: LanguageFormatOptions
+        ): Promise<TextEdit[]> {
+          const result = await connection.sendRequest(
+            DocumentRangeFormattingRequest.type,
+            {
+              textDocument: { uri },
+              range,
+              options: { ...options },
             }
           );
           return Array.isArray(result) ? result : [];
@@ -524,6 +866,203 @@ export class LSPManagerImpl implements LSPManager {
           }
           return [];
         },
+
+        async getReferences(
+          uri: string,
+          position: Position,
+          includeDeclaration: boolean
+        ): Promise<Location[]> {
+          const result = await connection.sendRequest(ReferencesRequest.type, {
+            textDocument: { uri },
+            position,
+            context: { includeDeclaration },
+          });
+          return result ?? [];
+        },
+
+        async getHover(uri: string, position: Position): Promise<Hover | null> {
+          return connection.sendRequest(HoverRequest.type, {
+            textDocument: { uri },
+            position,
+          });
+        },
+
+        async getSignatureHelp(
+          uri: string,
+          position: Position
+        ): Promise<SignatureHelp | null> {
+          return connection.sendRequest(SignatureHelpRequest.type, {
+            textDocument: { uri },
+            position,
+          });
+        },
+
+        async getInlayHints(uri: string, range: Range): Promise<InlayHint[]> {
+          const hints = await connection.sendRequest(InlayHintRequest.type, {
+            textDocument: { uri },
+            range,
+          });
+          return hints ?? [];
+        },
+
+        async getCompletions(
+          uri: string,
+          position: Position
+        ): Promise<CompletionItem[]> {
+          const result = await connection.sendRequest(CompletionRequest.type, {
+            textDocument: { uri },
+            position,
+          });
+          return Array.isArray(result) ? result : (result?.items ?? []);
+        },
+
+        async resolveCompletion(item: CompletionItem): Promise<CompletionItem> {
+          return connection.sendRequest(CompletionResolveRequest.type, item);
+        },
+
+        async getCodeActions(
+          uri: string,
+          range: Range,
+          diagnostics: Diagnostic[],
+          only?: string[]
+        ): Promise<(CodeAction | Command)[]> {
+          const result = await connection.sendRequest(CodeActionRequest.type, {
+            textDocument: { uri },
+            range,
+            context: { diagnostics, only },
+          });
+          return result ?? [];
+        },
+
+        async executeCommand(command: Command): Promise<WorkspaceEdit[]> {
+          requestedWorkspaceEdits = [];
+          try {
+            await connection.sendRequest(ExecuteCommandRequest.type, {
+              command: command.command,
+              arguments: command.arguments,
+            });
+            return requestedWorkspaceEdits;
+          } finally {
+            requestedWorkspaceEdits = undefined;
+          }
+        },
+
+        async prepareRename(
+          uri: string,
+          position: Position
+        ): Promise<PrepareRenameResult | null> {
+          return connection.sendRequest(PrepareRenameRequest.type, {
+            textDocument: { uri },
+            position,
+          });
+        },
+
+        async rename(
+          uri: string,
+          position: Position,
+          newName: string
+        ): Promise<WorkspaceEdit | null> {
+          return connection.sendRequest(RenameRequest.type, {
+            textDocument: { uri },
+            position,
+            newName,
+          });
+        },
+
+        async willRenameFiles(
+          oldUri: string,
+          newUri: string
+        ): Promise<WorkspaceEdit | null> {
+          return connection.sendRequest(WillRenameFilesRequest.type, {
+            files: [{ oldUri, newUri }],
+          });
+        },
+
+        async getDocumentSymbols(uri: string): Promise<DocumentSymbol[]> {
+          const result = await connection.sendRequest(
+            DocumentSymbolRequest.type,
+            {
+              textDocument: { uri },
+            }
+          );
+          return toDocumentSymbols(result);
+        },
+
+        async getWorkspaceSymbols(query: string): Promise<SymbolInformation[]> {
+          const result = await connection.sendRequest(
+            WorkspaceSymbolRequest.type,
+            { query }
+          );
+          return toSymbolInformation(result);
+        },
+
+        async prepareCallHierarchy(
+          uri: string,
+          position: Position
+        ): Promise<CallHierarchyItem[]> {
+          const items = await connection.sendRequest(
+            CallHierarchyPrepareRequest.type,
+            {
+              textDocument: { uri },
+              position,
+            }
+          );
+          return items ?? [];
+        },
+
+        async getIncomingCalls(
+          item: CallHierarchyItem
+        ): Promise<CallHierarchyIncomingCall[]> {
+          const calls = await connection.sendRequest(
+            CallHierarchyIncomingCallsRequest.type,
+            { item }
+          );
+          return calls ?? [];
+        },
+
+        async getOutgoingCalls(
+          item: CallHierarchyItem
+        ): Promise<CallHierarchyOutgoingCall[]> {
+          const calls = await connection.sendRequest(
+            CallHierarchyOutgoingCallsRequest.type,
+            { item }
+          );
+          return calls ?? [];
+        },
+
+        async prepareTypeHierarchy(
+          uri: string,
+          position: Position
+        ): Promise<TypeHierarchyItem[]> {
+          const items = await connection.sendRequest(
+            TypeHierarchyPrepareRequest.type,
+            {
+              textDocument: { uri },
+              position,
+            }
+          );
+          return items ?? [];
+        },
+
+        async getSupertypes(
+          item: TypeHierarchyItem
+        ): Promise<TypeHierarchyItem[]> {
+          const items = await connection.sendRequest(
+            TypeHierarchySupertypesRequest.type,
+            { item }
+          );
+          return items ?? [];
+        },
+
+        async getSubtypes(
+          item: TypeHierarchyItem
+        ): Promise<TypeHierarchyItem[]> {
+          const items = await connection.sendRequest(
+            TypeHierarchySubtypesRequest.type,
+            { item }
+          );
+          return items ?? [];
+        },
       };
     } catch (error) {
       this.logger.error(
@@ -538,6 +1077,127 @@ export class LSPManagerImpl implements LSPManager {
     }
   }
 
+  /**
+   * Searches a TypeScript project's symbols. The server only searches the
+   * projects of open documents, so when none is open a source file of the
+   * project is opened for the search, and its diagnostics awaited so the
+   * project has loaded.
+   */
+  private async getTypeScriptWorkspaceSymbols(
+    language: string,
+    tsServer: TypeScriptServer,
+    query: string
+  ): Promise<SymbolInformation[]> {
+    if (tsServer.hasOpenDocuments()) {
+      return tsServer.getWorkspaceSymbols(query);
+    }
+
+    const filePath = await this.findSourceFile(language);
+    if (!filePath) {
+      throw new LSPError(
+        `No ${language} source files found to load the project from`,
+        'NO_PROJECT',
+        { language }
+      );
+    }
+
+    try {
+      await tsServer.validateDocument(
+        filePath,
+        await this.fs.readFile(filePath)
+      );
+      return await tsServer.getWorkspaceSymbols(query);
+    } finally {
+      await tsServer.didClose(filePath);
+    }
+  }
+
+  /**
+   * Finds a source file of a language's project, looking in the directories
+   * its config includes before the rest of the project root. Directories are
+   * searched breadth-first, skipping dependencies and hidden directories.
+   */
+  private async findSourceFile(language: string): Promise<string | undefined> {
+    const context = this.projectContexts.get(language);
+    const extensions = SOURCE_EXTENSIONS[language];
+    if (!context || !extensions) {
+      return undefined;
+    }
+
+    const isSourceFile = (name: string) =>
+      extensions.some((extension) => name.endsWith(extension)) &&
+      !name.endsWith('.d.ts');
+
+    const queue = [
+      ...(await this.getIncludedDirectories(context)),
+      context.rootPath,
+    ];
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const dir = queue.shift()!;
+      if (visited.has(dir) || !(await this.fs.isDirectory(dir))) {
+        continue;
+      }
+      visited.add(dir);
+
+      const entries = await this.fs.readDirectory(dir);
+      const file = entries.find(
+        (entry) => !entry.isDirectory && isSourceFile(entry.name)
+      );
+      if (file) {
+        return path.join(dir, file.name);
+      }
+
+      queue.push(
+        ...entries
+          .filter(
+            (entry) =>
+              entry.isDirectory &&
+              entry.name !== 'node_modules' &&
+              !entry.name.startsWith('.')
+          )
+          .map((entry) => path.join(dir, entry.name))
+      );
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Gets the directories a project's config includes, from the fixed part of
+   * its include patterns. Configs that are not plain JSON are skipped.
+   */
+  private async getIncludedDirectories(
+    context: ProjectContext
+  ): Promise<string[]> {
+    if (!context.configPath) {
+      return [];
+    }
+
+    try {
+      const config = JSON.parse(await this.fs.readFile(context.configPath));
+      const include: unknown[] = Array.isArray(config.include)
+        ? config.include
+        : [];
+
+      return include
+        .filter((pattern): pattern is string => typeof pattern === 'string')
+        .map((pattern) =>
+          path.join(
+            path.dirname(context.configPath!),
+            pattern.split(/[*?[{]/)[0]
+          )
+        );
+    } catch (error) {
+      this.logger.debug('Could not read project config', {
+        configPath: context.configPath,
+        error: (error as Error).message,
+      });
+      return [];
+    }
+  }
+
   private async initializeTypeScriptServer(
     baseParams: InitializeParams,
     projectContext: ProjectContext
@@ -602,6 +1262,15 @@ export class LSPManagerImpl implements LSPManager {
             includeInlayParameterNameHints: 'all',
             includeInlayPropertyDeclarationTypeHints: true,
             includeInlayFunctionLikeReturnTypeHints: true,
+            includeInlayFunctionParameterTypeHints: true,
+            includeInlayVariableTypeHints: true,
+            includeInlayEnumMemberValueHints: true,
+            // Renames follow imports and shorthand properties instead of
+            // aliasing the old name
+            providePrefixAndSuffixTextForRename: false,
+            // Symbol searches cover the project, not lib or dependency
+            // declarations
+            excludeLibrarySymbolsInNavTo: true,
           },
           tsserver: {
             maxTsServerMemory: 4096,
@@ -618,6 +1287,7 @@ export class LSPManagerImpl implements LSPManager {
     config: LSPServerConfig
   ): Promise<InitializeParams> {
     const projectContext = await this.createProjectContext(language, config);
+    this.projectContexts.set(language, projectContext);
 
     // Define client capabilities that we support
     const clientCapabilities: ClientCapabilities = {
@@ -639,6 +1309,16 @@ export class LSPManagerImpl implements LSPManager {
           dynamicRegistration: true,
           contentFormat: ['markdown', 'plaintext'],
         },
+        signatureHelp: {
+          dynamicRegistration: true,
+          signatureInformation: {
+            documentationFormat: ['markdown', 'plaintext'],
+            parameterInformation: {
+              labelOffsetSupport: true,
+            },
+            activeParameterSupport: true,
+          },
+        },
         definition: {
           dynamicRegistration: true,
           linkSupport: true,
@@ -646,13 +1326,26 @@ export class LSPManagerImpl implements LSPManager {
         references: {
           dynamicRegistration: true,
         },
+        rename: {
+          dynamicRegistration: true,
+          prepareSupport: true,
+        },
         documentFormatting: {
           dynamicRegistration: true,
         },
+        rangeFormatting: {
+          dynamicRegistration: true,
+        },
         documentSymbol: {
           dynamicRegistration: true,
           hierarchicalDocumentSymbolSupport: true,
         },
+        callHierarchy: {
+          dynamicRegistration: true,
+        },
+        typeHierarchy: {
+          dynamicRegistration: true,
+        },
       },
       workspace: {
         workspaceFolders: true,
@@ -663,6 +1356,12 @@ export class LSPManagerImpl implements LSPManager {
         didChangeWatchedFiles: {
           dynamicRegistration: true,
         },
+        symbol: {
+          dynamicRegistration: true,
+        },
+        fileOperations: {
+          willRename: true,
+        },
       },
     };
 
@@ -694,10 +1393,7 @@ export class LSPManagerImpl implements LSPManager {
       rootPath: config.rootUri || process.cwd(),
       workspacePath: config.workspaceFolders[0],
       languageOptions: {
-        formatOptions: {
-          tabSize: 2,
-          insertSpaces: true,
-        },
+        formatOptions: { ...DEFAULT_FORMAT_OPTIONS },
       },
     };
 
@@ -722,6 +1418,21 @@ export class LSPManagerImpl implements LSPManager {
     return context;
   }
 
+  /**
+   * Reads a file if it exists and is in the allowed directories
+   */
+  private async readOptionalFile(
+    filePath: string
+  ): Promise<string | undefined> {
+    try {
+      return (await this.fs.exists(filePath))
+        ? await this.fs.readFile(filePath)
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   private async findConfig(
     rootPath: string,
     configFiles: string[]
@@ -751,7 +1462,9 @@ export class LSPManagerImpl implements LSPManager {
     try {
       await server.shutdown();
       this.servers.delete(language);
+      this.languageServers.delete(language);
       this.logger.info(`Stopped LSP server for ${language}`);
+      this.notifyServerState(language, false);
     } catch (error) {
       this.logger.error(
         `Failed to stop LSP server for ${language}`,
@@ -777,6 +1490,65 @@ export class LSPManagerImpl implements LSPManager {
     return server;
   }
 
+  /**
+   * Resolves the formatting options for a file from the .editorconfig files
+   * in its directory and above, and the Prettier config that applies to it,
+   * including its overrides. Prettier takes precedence, as it does when it
+   * formats; options neither sets keep their defaults.
+   * @param filePath Path of the file to format
+   */
+  async getFormatOptions(filePath: string): Promise<ResolvedFormatOptions> {
+    const options: LanguageFormatOptions = { ...DEFAULT_FORMAT_OPTIONS };
+    const skippedConfigs: SkippedFormatConfig[] = [];
+
+    // Closer .editorconfig files override the ones above them
+    let properties: Record<string, string> = {};
+    for (let dir = path.dirname(filePath); ; dir = path.dirname(dir)) {
+      const content = await this.readOptionalFile(
+        path.join(dir, '.editorconfig')
+      );
+      if (content !== undefined) {
+        const editorConfig = parseEditorConfig(
+          content,
+          path.relative(dir, filePath).split(path.sep).join('/')
+        );
+        properties = { ...editorConfig.properties, ...properties };
+        if (editorConfig.root) {
+          break;
+        }
+      }
+      if (dir === path.dirname(dir)) {
+        break;
+      }
+    }
+    Object.assign(options, editorConfigToFormatOptions(properties));
+
+    let prettierConfigPath: string | null = null;
+    try {
+      prettierConfigPath = await resolveConfigFile(filePath);
+      if (prettierConfigPath) {
+        const prettierConfig = await resolveConfig(filePath, {
+          config: prettierConfigPath,
+          editorconfig: false,
+          useCache: false,
+        });
+        Object.assign(options, parsePrettierConfig(prettierConfig));
+      }
+    } catch (error) {
+      this.logger.warn('Could not read Prettier config', {
+        filePath,
+        configPath: prettierConfigPath,
+        error: (error as Error).message,
+      });
+      skippedConfigs.push({
+        path: prettierConfigPath ?? 'Prettier config',
+        error: (error as Error).message,
+      });
+    }
+
+    return { options, skippedConfigs };
+  }
+
   /**
    * Validates a document using the appropriate language server
    */
@@ -809,4 +1581,34 @@ export class LSPManagerImpl implements LSPManager {
     this.processes.clear();
     this.servers.clear();
   }
+
+  /**
+   * Registers a listener that is called whenever a language server starts,
+   * stops or exits
+   * @returns A function that removes the listener
+   */
+  onDidChangeServerState(listener: ServerStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  private notifyServerState(
+    language: string,
+    connected: boolean,
+    error?: Error
+  ): void {
+    for (const listener of this.stateListeners) {
+      try {
+        listener(language, connected, error);
+      } catch (listenerError) {
+        this.logger.error(
+          'Server state listener failed',
+          listenerError as Error,
+          { language }
+        );
+      }
+    }
+  }
 }
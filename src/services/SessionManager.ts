@@ -1,23 +1,55 @@
 // src/services/SessionManager.ts
+import { createHash } from 'crypto';
+import { applyPatch, createTwoFilesPatch, structuredPatch } from 'diff';
 import { v4 as uuidv4 } from 'uuid';
-import { Diagnostic, TextEdit } from 'vscode-languageserver-protocol';
+import { Diagnostic, Range, TextEdit } from 'vscode-languageserver-protocol';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import {
+  DiagnosticPolicy,
+  DiskState,
+  DocumentContent,
+  EditHistory,
   EditOperationState,
   EditSession,
+  FileOperationState,
+  HistoryEntryRef,
+  SaveMode,
+  SaveResult,
+  SessionChangeEvent,
+  SessionChangeListener,
+  SessionInfo,
   SessionState,
 } from '../types/editor.js';
 import { SessionError } from '../types/errors.js';
 import { LSPManager } from '../types/lsp.js';
+import { formatNumberedLines, getLines } from '../utils/document.js';
+import {
+  computeTextEdits,
+  getAppliedRanges,
+  getReplacedText,
+  sortEditsDescending,
+} from '../utils/edits.js';
 import { FileSystemManager } from '../utils/fs.js';
 import { Logger } from '../utils/logger.js';
 
 const MAX_HISTORY_SIZE = 100;
 
+/**
+ * A file about to be written by a save, with its state on disk before it
+ */
+interface PendingSave {
+  sessionId: string;
+  filePath: string;
+  content: string;
+  merged: boolean;
+  disk: DiskState;
+}
+
 export class SessionManager {
   private sessions: Map<string, EditSession>;
   private readonly DEFAULT_CLEANUP_INTERVAL = 1000 * 60 * 30; // 30 minutes
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private readonly changeListeners: Set<SessionChangeListener> = new Set();
 
   constructor(
     private readonly fs: FileSystemManager,
@@ -29,9 +61,17 @@ export class SessionManager {
     this.logger = logger;
     this.sessions = new Map();
     this.startCleanupInterval();
+
+    lspManager.onDidChangeServerState((languageId, connected, error) =>
+      this.recordServerState(languageId, connected, error)
+    );
   }
 
-  private createInitialState(): SessionState {
+  private createInitialState(
+    diskState: DiskState,
+    diagnosticPolicy: DiagnosticPolicy,
+    organizeImportsOnSave: boolean
+  ): SessionState {
     return {
       editHistory: {
         operations: [],
@@ -44,11 +84,15 @@ export class SessionManager {
         diagnostics: [],
         isValid: true,
         inProgress: false,
+        documentVersion: 0,
       },
       languageServerState: {
         connected: false,
         capabilities: {},
       },
+      diskState,
+      diagnosticPolicy,
+      organizeImportsOnSave,
       lastModified: Date.now(),
       isSaving: false,
       isDirty: false,
@@ -59,12 +103,16 @@ export class SessionManager {
    * Creates a new edit session for a file
    * @param filePath Path to the file to edit
    * @param languageId Language identifier for the file
+   * @param diagnosticPolicy How edits that introduce new errors are handled
+   * @param organizeImportsOnSave Whether saving organizes the imports first
    * @returns The created session
    * @throws {SessionError} If session creation fails
    */
   async createSession(
     filePath: string,
-    languageId: string
+    languageId: string,
+    diagnosticPolicy: DiagnosticPolicy = 'warn',
+    organizeImportsOnSave: boolean = false
   ): Promise<EditSession> {
     try {
       const validatedPath = await this.fs.validatePath(
@@ -82,6 +130,7 @@ export class SessionManager {
       }
 
       const content = await this.fs.readFile(validatedPath);
+      const stats = await this.fs.stat(validatedPath);
       const document = TextDocument.create(
         validatedPath,
         languageId,
@@ -97,13 +146,18 @@ export class SessionManager {
         languageId,
         createdAt: Date.now(),
         lastActivity: Date.now(),
-        state: this.createInitialState(),
+        state: this.createInitialState(
+          {
+            mtimeMs: stats.mtimeMs,
+            hash: this.hashContent(content),
+            content,
+          },
+          diagnosticPolicy,
+          organizeImportsOnSave
+        ),
       };
 
-      // Initialize language server
-      await this.lspManager.startServer(languageId);
-
-      // Update language server state
+      // Initialize language server, started by an earlier session or here
       const server = await this.lspManager.getServer(languageId);
       const capabilities = await server.initialize();
 
@@ -113,6 +167,7 @@ export class SessionManager {
       };
 
       this.sessions.set(sessionId, session);
+      this.notifyChange({ sessionId, kind: 'created' });
 
       this.logger.info('Created new edit session', {
         sessionId,
@@ -133,18 +188,33 @@ export class SessionManager {
 
   /**
    * Records an edit operation in the session's history
+   * @param sessionId ID of the session the edit was applied to
+   * @param previousDocument Document as it was before the edit
+   * @param changes Edits that were applied
+   * @param documentVersion Version of the document after the edit
+   * @param fileOperation Change the edit made to the file itself, already
+   * carried out on disk
    */
   async recordEdit(
     sessionId: string,
+    previousDocument: TextDocument,
     changes: TextEdit[],
-    documentVersion: number
+    documentVersion: number,
+    fileOperation?: FileOperationState
   ): Promise<void> {
     const session = await this.getSession(sessionId);
 
     const operation: EditOperationState = {
       timestamp: Date.now(),
       changes,
+      replacedText: getReplacedText(previousDocument, changes),
+      appliedRanges: getAppliedRanges(
+        previousDocument,
+        changes,
+        session.document
+      ),
       documentVersion,
+      ...(fileOperation && { fileOperation }),
     };
 
     const history = session.state.editHistory;
@@ -172,7 +242,7 @@ export class SessionManager {
 
     // Update session state
     session.state.lastModified = Date.now();
-    session.state.isDirty = true;
+    session.state.isDirty = this.hasUnsavedText(session);
 
     await this.updateSession(sessionId, {
       state: session.state,
@@ -185,12 +255,83 @@ export class SessionManager {
     });
   }
 
+  /**
+   * Deletes or renames a session's file on disk and records it in the
+   * session's history, so undoing the entry puts the file back
+   * @param sessionId ID of the session editing the file
+   * @param fileOperation Operation to carry out
+   * @param changes Edits to the file's own text that go with the operation,
+   * like the import paths a rename updates
+   * @throws {SessionError} If a file is in the way, or the file changed on
+   * disk since the session last read it
+   */
+  async performFileOperation(
+    sessionId: string,
+    fileOperation: FileOperationState,
+    changes: TextEdit[] = []
+  ): Promise<void> {
+    const previousDocument = (await this.getSession(sessionId)).document;
+
+    await this.runFileOperation(sessionId, fileOperation, 'redo');
+    if (changes.length > 0) {
+      await this.applyDocumentChanges(
+        await this.getSession(sessionId),
+        changes
+      );
+    }
+
+    const { document } = await this.getSession(sessionId);
+    await this.recordEdit(
+      sessionId,
+      previousDocument,
+      changes,
+      document.version,
+      fileOperation
+    );
+
+    this.logger.info('Performed file operation', {
+      sessionId,
+      kind: fileOperation.kind,
+      filePath: fileOperation.filePath,
+      newPath: fileOperation.newPath,
+    });
+  }
+
+  /**
+   * Links history entries of other sessions to the file operation last
+   * recorded in a session, so they are undone and redone with it
+   * @throws {SessionError} If the session's last entry is not a file
+   * operation
+   */
+  async linkEdits(
+    sessionId: string,
+    linkedEdits: HistoryEntryRef[]
+  ): Promise<void> {
+    const { operations, currentIndex } = (await this.getSession(sessionId))
+      .state.editHistory;
+    const fileOperation = operations[currentIndex]?.fileOperation;
+
+    if (!fileOperation) {
+      throw new SessionError(
+        `Last edit of session is not a file operation: ${sessionId}`,
+        'INVALID_OPERATION',
+        { sessionId }
+      );
+    }
+
+    fileOperation.linkedEdits = linkedEdits;
+  }
+
   /**
    * Updates the validation state for a session
+   * @param sessionId ID of the session that was validated
+   * @param diagnostics Diagnostics reported for the document
+   * @param documentVersion Version of the document that was validated
    */
   async updateValidationState(
     sessionId: string,
-    diagnostics: Diagnostic[]
+    diagnostics: Diagnostic[],
+    documentVersion: number
   ): Promise<void> {
     const session = await this.getSession(sessionId);
 
@@ -199,11 +340,13 @@ export class SessionManager {
       diagnostics,
       isValid: diagnostics.length === 0,
       inProgress: false,
+      documentVersion,
     };
 
     await this.updateSession(sessionId, {
       state: session.state,
     });
+    this.notifyChange({ sessionId, kind: 'diagnostics' });
 
     this.logger.debug('Updated validation state', {
       sessionId,
@@ -256,24 +399,34 @@ export class SessionManager {
       return false;
     }
 
-    // Apply inverse of the last operation
     const operation = history.operations[history.currentIndex];
-    const inverseChanges = this.createInverseChanges(operation.changes);
-
-    // Apply changes to document
-    const newContent = TextDocument.applyEdits(
-      session.document,
-      inverseChanges
+    const { fileOperation } = operation;
+    const linkedEdits = fileOperation?.linkedEdits ?? [];
+
+    // Edits linked to a file operation are undone with it, so each must
+    // still be the last one in its session
+    this.checkLinkedEdits(
+      linkedEdits,
+      (linkedHistory, entry) =>
+        linkedHistory.operations[linkedHistory.currentIndex] === entry.operation
     );
-    const newVersion = session.document.version + 1;
 
-    // Create new document with changes
-    const updatedDoc = TextDocument.create(
-      session.document.uri,
-      session.languageId,
-      newVersion,
-      newContent
-    );
+    if (fileOperation) {
+      await this.runFileOperation(sessionId, fileOperation, 'undo');
+    }
+
+    // Restore the replaced text at the ranges the operation produced
+    if (!fileOperation || operation.changes.length > 0) {
+      const inverseChanges = this.createInverseChanges(operation);
+      await this.applyDocumentChanges(
+        await this.getSession(sessionId),
+        inverseChanges
+      );
+    }
+
+    for (const entry of [...linkedEdits].reverse()) {
+      await this.undo(entry.sessionId);
+    }
 
     // Update history state
     history.currentIndex--;
@@ -281,13 +434,13 @@ export class SessionManager {
     history.canRedo = true;
 
     // Update session
+    const current = await this.getSession(sessionId);
     await this.updateSession(sessionId, {
-      document: updatedDoc,
       state: {
-        ...session.state,
+        ...current.state,
         editHistory: history,
         lastModified: Date.now(),
-        isDirty: true,
+        isDirty: this.hasUnsavedText(current),
       },
     });
 
@@ -310,23 +463,32 @@ export class SessionManager {
       return false;
     }
 
-    // Get the next operation
     const operation = history.operations[history.currentIndex + 1];
-
-    // Apply changes to document
-    const newContent = TextDocument.applyEdits(
-      session.document,
-      operation.changes
+    const { fileOperation } = operation;
+    const linkedEdits = fileOperation?.linkedEdits ?? [];
+
+    this.checkLinkedEdits(
+      linkedEdits,
+      (linkedHistory, entry) =>
+        linkedHistory.operations[linkedHistory.currentIndex + 1] ===
+        entry.operation
     );
-    const newVersion = session.document.version + 1;
 
-    // Create new document with changes
-    const updatedDoc = TextDocument.create(
-      session.document.uri,
-      session.languageId,
-      newVersion,
-      newContent
-    );
+    if (fileOperation) {
+      await this.runFileOperation(sessionId, fileOperation, 'redo');
+    }
+
+    // Re-apply the next operation's original changes
+    if (!fileOperation || operation.changes.length > 0) {
+      await this.applyDocumentChanges(
+        await this.getSession(sessionId),
+        operation.changes
+      );
+    }
+
+    for (const entry of linkedEdits) {
+      await this.redo(entry.sessionId);
+    }
 
     // Update history state
     history.currentIndex++;
@@ -334,13 +496,13 @@ export class SessionManager {
     history.canRedo = history.currentIndex < history.operations.length - 1;
 
     // Update session
+    const current = await this.getSession(sessionId);
     await this.updateSession(sessionId, {
-      document: updatedDoc,
       state: {
-        ...session.state,
+        ...current.state,
         editHistory: history,
         lastModified: Date.now(),
-        isDirty: true,
+        isDirty: this.hasUnsavedText(current),
       },
     });
 
@@ -352,16 +514,616 @@ export class SessionManager {
     return true;
   }
 
+  /**
+   * Reverts the last edit and removes it from the history, so it cannot be
+   * redone
+   */
+  async discardLastEdit(sessionId: string): Promise<boolean> {
+    if (!(await this.undo(sessionId))) {
+      return false;
+    }
+
+    const session = await this.getSession(sessionId);
+    const history = session.state.editHistory;
+    history.operations = history.operations.slice(0, history.currentIndex + 1);
+    history.canRedo = false;
+
+    await this.updateSession(sessionId, {
+      state: session.state,
+    });
+
+    this.logger.debug('Discarded last edit operation', {
+      sessionId,
+      operationCount: history.operations.length,
+    });
+
+    return true;
+  }
+
+  /**
+   * Reads the current text of a session's document
+   * @param sessionId ID of the session to read
+   * @param startLine First line to read (0-based, inclusive)
+   * @param endLine Last line to read (0-based, inclusive)
+   * @param lineNumbers Whether to prefix each line with its line number
+   * @throws {SessionError} If the line range is outside the document
+   */
+  async readDocument(
+    sessionId: string,
+    startLine?: number,
+    endLine?: number,
+    lineNumbers: boolean = false
+  ): Promise<DocumentContent> {
+    const session = await this.getSession(sessionId);
+    const { document } = session;
+    const lastLine = document.lineCount - 1;
+    const start = startLine ?? 0;
+    const end = Math.min(endLine ?? lastLine, lastLine);
+
+    if (start < 0 || start > lastLine || end < start) {
+      throw new SessionError(
+        `Invalid line range ${start}-${endLine ?? lastLine} for a document of ${document.lineCount} lines`,
+        'INVALID_LINE_RANGE',
+        { sessionId, startLine, endLine, lineCount: document.lineCount }
+      );
+    }
+
+    const lines = getLines(document, start, end);
+
+    return {
+      filePath: session.filePath,
+      documentVersion: document.version,
+      lineCount: document.lineCount,
+      startLine: start,
+      endLine: end,
+      text: lineNumbers
+        ? formatNumberedLines(lines, start)
+        : document.getText(Range.create(start, 0, end + 1, 0)),
+    };
+  }
+
+  /**
+   * Lists every open session. Unlike getSession, this doesn't count as
+   * activity, so inspecting sessions doesn't keep them from being cleaned up.
+   */
+  listSessions(): SessionInfo[] {
+    return Array.from(this.sessions.values()).map((session) =>
+      this.describeSession(session)
+    );
+  }
+
+  /**
+   * Describes a session without counting as activity on it
+   * @throws {SessionError} If the session is not found
+   */
+  getSessionInfo(sessionId: string): SessionInfo {
+    return this.describeSession(this.peekSession(sessionId));
+  }
+
+  private describeSession(session: EditSession): SessionInfo {
+    const { editHistory, validationState, languageServerState } = session.state;
+    const { diagnostics } = validationState;
+
+    return {
+      sessionId: session.id,
+      filePath: session.filePath,
+      languageId: session.languageId,
+      documentVersion: session.document.version,
+      diagnosticPolicy: session.state.diagnosticPolicy,
+      organizeImportsOnSave: session.state.organizeImportsOnSave,
+      isDirty: session.state.isDirty,
+      isSaving: session.state.isSaving,
+      history: {
+        depth: editHistory.operations.length,
+        currentIndex: editHistory.currentIndex,
+        canUndo: editHistory.canUndo,
+        canRedo: editHistory.canRedo,
+      },
+      validation: {
+        lastChecked:
+          validationState.documentVersion > 0 ? validationState.lastChecked : 0,
+        documentVersion: validationState.documentVersion,
+        isCurrent: validationState.documentVersion === session.document.version,
+        errors: diagnostics.filter((d) => d.severity === 1).length,
+        warnings: diagnostics.filter((d) => d.severity === 2).length,
+        total: diagnostics.length,
+      },
+      languageServer: {
+        connected: languageServerState.connected,
+        lastError: languageServerState.lastError,
+      },
+      createdAt: session.createdAt,
+      lastActivity: session.lastActivity,
+      idleTime: Date.now() - session.lastActivity,
+    };
+  }
+
+  /**
+   * Gets the edit history of a session
+   */
+  async getHistory(sessionId: string): Promise<EditHistory> {
+    const session = await this.getSession(sessionId);
+    return session.state.editHistory;
+  }
+
+  /**
+   * Saves a session's document to disk
+   * @param sessionId ID of the session to save
+   * @param mode How to handle changes made to the file on disk in the meantime
+   * @returns The result of the save
+   * @throws {SessionError} If the file changed on disk and cannot be saved
+   */
+  async saveSession(
+    sessionId: string,
+    mode: SaveMode = 'safe'
+  ): Promise<SaveResult> {
+    const [result] = await this.saveSessions([sessionId], mode);
+    return result;
+  }
+
+  /**
+   * Saves several sessions' documents to disk together. Every file is
+   * checked for changes on disk before any is written, and if a write fails
+   * the files already written are restored, so either every file is saved or
+   * none is. Merged disk changes are recorded as edits even if the save
+   * then fails.
+   * @param sessionIds IDs of the sessions to save
+   * @param mode How to handle changes made to the files on disk in the
+   * meantime
+   * @returns The result of the save, for each session in order
+   * @throws {SessionError} If a file changed on disk and cannot be saved
+   */
+  async saveSessions(
+    sessionIds: string[],
+    mode: SaveMode = 'safe'
+  ): Promise<SaveResult[]> {
+    const sessions: EditSession[] = [];
+    for (const sessionId of sessionIds) {
+      const session = await this.getSession(sessionId);
+      if (session.state.isSaving) {
+        throw new SessionError(
+          `Session is already being saved: ${sessionId}`,
+          'SAVE_IN_PROGRESS',
+          { sessionId }
+        );
+      }
+      sessions.push(session);
+    }
+
+    for (const session of sessions) {
+      session.state.isSaving = true;
+    }
+
+    try {
+      const files: PendingSave[] = [];
+      const conflicts: Record<string, unknown>[] = [];
+
+      for (const session of sessions) {
+        const { filePath } = session;
+        const base = session.state.diskState;
+        let content = session.document.getText();
+        let merged = false;
+
+        const disk = await this.readDiskState(filePath, base);
+        if (disk.hash !== base.hash) {
+          if (mode === 'safe') {
+            conflicts.push({
+              sessionId: session.id,
+              filePath,
+              diff: this.createThreeWayDiff(filePath, base.content, {
+                local: content,
+                disk: disk.content,
+              }),
+            });
+            continue;
+          }
+
+          if (mode === 'merge') {
+            content = await this.mergeDiskChanges(session, disk.content);
+            merged = true;
+          }
+        }
+
+        files.push({ sessionId: session.id, filePath, content, merged, disk });
+      }
+
+      if (conflicts.length === 1) {
+        throw new SessionError(
+          `File changed on disk since the session opened it: ${conflicts[0].filePath}`,
+          'CONFLICT',
+          conflicts[0]
+        );
+      }
+      if (conflicts.length > 1) {
+        throw new SessionError(
+          `${conflicts.length} files changed on disk since their sessions opened them`,
+          'CONFLICT',
+          { conflicts }
+        );
+      }
+
+      const written: PendingSave[] = [];
+      try {
+        for (const file of files) {
+          await this.fs.writeFile(file.filePath, file.content);
+          written.push(file);
+        }
+      } catch (error) {
+        await this.restoreDiskState(written);
+        throw error;
+      }
+
+      const results: SaveResult[] = [];
+      for (const { sessionId, filePath, content, merged } of files) {
+        const stats = await this.fs.stat(filePath);
+        const current = await this.getSession(sessionId);
+        current.state.diskState = {
+          mtimeMs: stats.mtimeMs,
+          hash: this.hashContent(content),
+          content,
+        };
+        current.state.isDirty = false;
+
+        this.logger.info('Saved session', {
+          sessionId,
+          filePath,
+          mode,
+          merged,
+          documentVersion: current.document.version,
+        });
+
+        results.push({
+          filePath,
+          documentVersion: current.document.version,
+          merged,
+        });
+      }
+
+      return results;
+    } catch (error) {
+      this.logger.error('Failed to save session', error as Error, {
+        sessionIds,
+        mode,
+      });
+      throw error;
+    } finally {
+      for (const sessionId of sessionIds) {
+        const current = this.sessions.get(sessionId);
+        if (current) {
+          current.state.isSaving = false;
+        }
+      }
+    }
+  }
+
+  /**
+   * Puts back the files of a failed save as they were on disk before it.
+   * Files that didn't exist are removed again.
+   */
+  private async restoreDiskState(files: PendingSave[]): Promise<void> {
+    for (const { filePath, disk } of files) {
+      try {
+        if (disk.mtimeMs === 0) {
+          await this.fs.unlink(filePath);
+        } else {
+          await this.fs.writeFile(filePath, disk.content);
+        }
+      } catch (error) {
+        this.logger.error('Failed to restore file after save', error as Error, {
+          filePath,
+        });
+      }
+    }
+  }
+
+  /**
+   * Reads the file's current disk state, skipping the read when its mtime
+   * is unchanged. A deleted file is reported as empty.
+   */
+  private async readDiskState(
+    filePath: string,
+    known: DiskState
+  ): Promise<DiskState> {
+    if (!(await this.fs.exists(filePath))) {
+      return { mtimeMs: 0, hash: this.hashContent(''), content: '' };
+    }
+
+    const stats = await this.fs.stat(filePath);
+    if (stats.mtimeMs === known.mtimeMs) {
+      return known;
+    }
+
+    const content = await this.fs.readFile(filePath);
+    return {
+      mtimeMs: stats.mtimeMs,
+      hash: this.hashContent(content),
+      content,
+    };
+  }
+
+  /**
+   * Applies the session's changes on top of the file on disk and records
+   * the result as an edit
+   * @returns The merged content
+   * @throws {SessionError} If the changes cannot be merged cleanly
+   */
+  private async mergeDiskChanges(
+    session: EditSession,
+    diskContent: string
+  ): Promise<string> {
+    const base = session.state.diskState.content;
+    const local = session.document.getText();
+    // Without context lines, only the changed lines themselves must match
+    const patch = structuredPatch(
+      session.filePath,
+      session.filePath,
+      base,
+      local,
+      undefined,
+      undefined,
+      { context: 0 }
+    );
+    const merged = applyPatch(diskContent, patch);
+
+    if (merged === false) {
+      throw new SessionError(
+        `Failed to merge session changes into ${session.filePath}`,
+        'MERGE_CONFLICT',
+        {
+          sessionId: session.id,
+          filePath: session.filePath,
+          diff: this.createThreeWayDiff(session.filePath, base, {
+            local,
+            disk: diskContent,
+          }),
+        }
+      );
+    }
+
+    const previousDocument = session.document;
+    const changes = computeTextEdits(previousDocument, merged);
+    if (changes.length > 0) {
+      await this.applyDocumentChanges(session, changes);
+      await this.recordEdit(
+        session.id,
+        previousDocument,
+        changes,
+        previousDocument.version + 1
+      );
+    }
+
+    return merged;
+  }
+
+  /**
+   * Describes local and on-disk changes relative to their common base
+   */
+  private createThreeWayDiff(
+    filePath: string,
+    base: string,
+    versions: { local: string; disk: string }
+  ): Record<string, string> {
+    return {
+      local: createTwoFilesPatch(filePath, filePath, base, versions.local),
+      disk: createTwoFilesPatch(filePath, filePath, base, versions.disk),
+    };
+  }
+
+  private hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Applies changes to a session's document and keeps the language server
+   * in sync
+   */
+  private async applyDocumentChanges(
+    session: EditSession,
+    changes: TextEdit[]
+  ): Promise<void> {
+    const { document, languageId } = session;
+    const newContent = TextDocument.applyEdits(document, changes);
+    const newVersion = document.version + 1;
+
+    const updatedDoc = TextDocument.create(
+      document.uri,
+      languageId,
+      newVersion,
+      newContent
+    );
+
+    await this.updateSession(session.id, { document: updatedDoc });
+
+    const server = await this.lspManager.getServer(languageId);
+    await server.didChange(
+      document.uri,
+      sortEditsDescending(document, changes),
+      newVersion
+    );
+  }
+
   /**
    * Creates inverse changes for undo operations
    */
-  private createInverseChanges(changes: TextEdit[]): TextEdit[] {
-    return changes.map((change) => ({
-      range: change.range,
-      newText: '', // For simplicity, we're just removing the text. A more complex implementation would store the original text.
+  private createInverseChanges(operation: EditOperationState): TextEdit[] {
+    return operation.appliedRanges.map((range, index) => ({
+      range,
+      newText: operation.replacedText[index],
     }));
   }
 
+  /**
+   * Carries out a file operation on disk, or reverts it, and points the
+   * session and the language server at the file's new state
+   * @throws {SessionError} If a file is in the way, or the file changed on
+   * disk since the session last read it
+   */
+  private async runFileOperation(
+    sessionId: string,
+    operation: FileOperationState,
+    direction: 'undo' | 'redo'
+  ): Promise<void> {
+    const session = await this.getSession(sessionId);
+    const { kind, filePath, newPath = filePath, content = '' } = operation;
+    const server = await this.lspManager.getServer(session.languageId);
+
+    if (kind === 'rename') {
+      const [from, to] =
+        direction === 'redo' ? [filePath, newPath] : [newPath, filePath];
+      await this.checkMissing(session, to);
+      await this.fs.rename(from, to);
+      await this.moveSession(session, to);
+    } else if ((kind === 'create') === (direction === 'redo')) {
+      await this.checkMissing(session, filePath);
+      await this.fs.writeFile(filePath, content);
+      await server.syncDocument(
+        session.document.uri,
+        session.document.getText()
+      );
+    } else {
+      await this.checkUnchanged(session);
+      await this.fs.unlink(filePath);
+      // Closing the document makes the server drop the file from its project
+      await server.didClose(session.document.uri);
+    }
+
+    const current = await this.getSession(sessionId);
+    current.state.diskState = await this.readDiskState(
+      current.filePath,
+      current.state.diskState
+    );
+  }
+
+  /**
+   * @throws {SessionError} If a file exists at the path
+   */
+  private async checkMissing(
+    session: EditSession,
+    filePath: string
+  ): Promise<void> {
+    if (await this.fs.exists(filePath)) {
+      throw new SessionError(
+        `File already exists: ${filePath}`,
+        'FILE_EXISTS',
+        {
+          sessionId: session.id,
+          filePath,
+        }
+      );
+    }
+  }
+
+  /**
+   * @throws {SessionError} If the session's file changed on disk since the
+   * session last read or saved it
+   */
+  private async checkUnchanged(session: EditSession): Promise<void> {
+    const base = session.state.diskState;
+    const disk = await this.readDiskState(session.filePath, base);
+
+    if (disk.hash !== base.hash) {
+      throw new SessionError(
+        `File changed on disk since the session last read it: ${session.filePath}`,
+        'CONFLICT',
+        {
+          sessionId: session.id,
+          filePath: session.filePath,
+          diff: this.createThreeWayDiff(session.filePath, base.content, {
+            local: session.document.getText(),
+            disk: disk.content,
+          }),
+        }
+      );
+    }
+  }
+
+  /**
+   * Points a session at the new path of its renamed file, reopening its
+   * document there on the language server
+   */
+  private async moveSession(
+    session: EditSession,
+    filePath: string
+  ): Promise<void> {
+    const { document, languageId } = session;
+    const moved = TextDocument.create(
+      filePath,
+      languageId,
+      document.version,
+      document.getText()
+    );
+
+    const server = await this.lspManager.getServer(languageId);
+    await server.didClose(document.uri);
+
+    await this.updateSession(session.id, { filePath, document: moved });
+    await server.syncDocument(moved.uri, moved.getText());
+    this.notifyChange({ sessionId: session.id, kind: 'moved' });
+  }
+
+  /**
+   * Checks that every edit linked to a file operation is where the
+   * operation left it in its session's history, before any is undone or
+   * redone
+   * @throws {SessionError} If a linked session was closed or its history
+   * moved on
+   */
+  private checkLinkedEdits(
+    linkedEdits: HistoryEntryRef[],
+    isInPlace: (history: EditHistory, entry: HistoryEntryRef) => boolean
+  ): void {
+    for (const entry of linkedEdits) {
+      const session = this.sessions.get(entry.sessionId);
+      if (!session || !isInPlace(session.state.editHistory, entry)) {
+        throw new SessionError(
+          `File was edited or closed since the file operation updated it: ${entry.filePath}`,
+          'HISTORY_DIVERGED',
+          { ...entry }
+        );
+      }
+    }
+  }
+
+  /**
+   * Records a language server starting, stopping or exiting in the
+   * sessions of its language. The last error is kept after a restart.
+   */
+  private recordServerState(
+    languageId: string,
+    connected: boolean,
+    error?: Error
+  ): void {
+    for (const session of this.sessions.values()) {
+      if (session.languageId !== languageId) {
+        continue;
+      }
+
+      session.state.languageServerState = {
+        ...session.state.languageServerState,
+        connected,
+        ...(error && {
+          lastError: {
+            message: error.message,
+            timestamp: Date.now(),
+          },
+        }),
+      };
+    }
+
+    this.logger.debug('Updated language server state', {
+      languageId,
+      connected,
+      hasError: !!error,
+    });
+  }
+
+  /**
+   * Whether a session's document differs from its file on disk
+   */
+  private hasUnsavedText(session: EditSession): boolean {
+    return session.document.getText() !== session.state.diskState.content;
+  }
+
   /**
    * Retrieves an existing session by ID
    * @param sessionId ID of the session to retrieve
@@ -386,6 +1148,32 @@ export class SessionManager {
     return session;
   }
 
+  /**
+   * Retrieves an existing session without counting as activity on it, for
+   * reads that should not keep the session from being cleaned up
+   * @param sessionId ID of the session to retrieve
+   * @throws {SessionError} If session is not found
+   */
+  peekSession(sessionId: string): EditSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new SessionError(`Session not found: ${sessionId}`, 'NOT_FOUND', {
+        sessionId,
+      });
+    }
+    return session;
+  }
+
+  /**
+   * Finds the session editing a file, without counting as activity on it
+   * @param filePath Resolved path of the file
+   */
+  findSessionByPath(filePath: string): EditSession | undefined {
+    return Array.from(this.sessions.values()).find(
+      (session) => session.filePath === filePath
+    );
+  }
+
   /**
    * Updates an existing session
    * @param sessionId ID of the session to update
@@ -408,6 +1196,10 @@ export class SessionManager {
 
       this.sessions.set(sessionId, updatedSession);
 
+      if (changes.document) {
+        this.notifyChange({ sessionId, kind: 'document' });
+      }
+
       this.logger.debug('Updated session', {
         sessionId,
         changes,
@@ -432,6 +1224,7 @@ export class SessionManager {
 
       // Clean up resources
       this.sessions.delete(sessionId);
+      this.notifyChange({ sessionId, kind: 'closed' });
 
       this.logger.info('Closed session', { sessionId });
     } catch (error) {
@@ -442,6 +1235,30 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Registers a listener that is called whenever a session is created,
+   * changed or closed
+   * @returns A function that removes the listener
+   */
+  onDidChangeSession(listener: SessionChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private notifyChange(event: SessionChangeEvent): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error('Session change listener failed', error as Error, {
+          ...event,
+        });
+      }
+    }
+  }
+
   /**
    * Cleans up inactive sessions
    * @param maxInactiveTime Maximum allowed inactive time in milliseconds
@@ -0,0 +1,446 @@
+// src/services/TargetResolver.ts
+import {
+  DocumentSymbol,
+  Position,
+  Range,
+  SymbolKind,
+} from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CodeTarget, CodeTargetType, TextAnchor } from '../types/editor.js';
+import { EditError } from '../types/errors.js';
+import { LSPManager } from '../types/lsp.js';
+import { NavigationError, SymbolQuery } from '../types/navigation.js';
+import { getImportedNames, parseImports } from '../utils/imports.js';
+import { Logger } from '../utils/logger.js';
+
+const MAX_REPORTED_CANDIDATES = 20;
+
+/**
+ * Symbol kinds each target type may resolve to. Arrow functions and
+ * function components are reported as variables, so those are accepted
+ * when their declaration is function-like.
+ */
+const TARGET_SYMBOL_KINDS: Partial<Record<CodeTargetType, SymbolKind[]>> = {
+  function: [
+    SymbolKind.Function,
+    SymbolKind.Method,
+    SymbolKind.Constructor,
+    SymbolKind.Variable,
+    SymbolKind.Constant,
+  ],
+  component: [
+    SymbolKind.Function,
+    SymbolKind.Class,
+    SymbolKind.Variable,
+    SymbolKind.Constant,
+  ],
+  class: [SymbolKind.Class],
+  interface: [SymbolKind.Interface],
+};
+
+const VARIABLE_KINDS: SymbolKind[] = [SymbolKind.Variable, SymbolKind.Constant];
+
+/**
+ * Part of a resolved symbol to target
+ * - declaration: the whole declaration (default)
+ * - body: the contents of the declaration's outermost braces
+ * - name: the symbol's name
+ */
+type TargetPart = 'declaration' | 'body' | 'name';
+
+/**
+ * A location that matched a target description
+ */
+interface TargetCandidate {
+  occurrence: number;
+  range: Range;
+  preview: string;
+  name?: string;
+  kind?: SymbolKind;
+}
+
+export class TargetResolver {
+  constructor(
+    private readonly lspManager: LSPManager,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Resolves a text anchor to the range of the matching text
+   * @param document Document to search
+   * @param anchor Text to locate, with optional context
+   * @throws {EditError} If the anchor matches no location or several
+   */
+  resolveAnchor(document: TextDocument, anchor: TextAnchor): Range {
+    if (!anchor.text) {
+      throw new EditError('Anchor text must not be empty', 'INVALID_TARGET', {
+        anchor,
+      });
+    }
+
+    const text = document.getText();
+    const candidates: TargetCandidate[] = [];
+
+    for (
+      let offset = text.indexOf(anchor.text);
+      offset !== -1;
+      offset = text.indexOf(anchor.text, offset + 1)
+    ) {
+      const end = offset + anchor.text.length;
+      if (!this.matchesContext(text, offset, end, anchor)) {
+        continue;
+      }
+
+      const range = Range.create(
+        document.positionAt(offset),
+        document.positionAt(end)
+      );
+      candidates.push({
+        occurrence: candidates.length + 1,
+        range,
+        preview: this.getLinePreview(document, range.start.line),
+      });
+    }
+
+    const candidate = this.pickCandidate(
+      candidates,
+      anchor.occurrence,
+      'Anchor text',
+      { anchor }
+    );
+
+    this.logger.debug('Resolved anchor', {
+      range: candidate.range,
+    });
+
+    return candidate.range;
+  }
+
+  /**
+   * Resolves a symbol query to a position
+   * @param document Document to search
+   * @param query Position, or anchor text whose start or end is used
+   * @param edge Edge of the anchor text to use
+   * @throws {NavigationError} If the query has neither or both of a
+   * position and an anchor
+   * @throws {EditError} If the anchor matches no location or several
+   */
+  resolvePosition(
+    document: TextDocument,
+    query: SymbolQuery,
+    edge: 'start' | 'end' = 'start'
+  ): Position {
+    if (!query.position === !query.anchor) {
+      throw new NavigationError(
+        'Provide either a position or an anchor',
+        'INVALID_QUERY',
+        { query }
+      );
+    }
+
+    if (query.anchor) {
+      return this.resolveAnchor(document, query.anchor)[edge];
+    }
+
+    // Clamp positions past the end of a line or the document
+    return document.positionAt(document.offsetAt(query.position!));
+  }
+
+  /**
+   * Resolves a code target to a range. Symbol targets are looked up through
+   * the language server's document symbols, by name or by a dotted path
+   * such as `Button.render`.
+   * @param document Document containing the target
+   * @param target Target description
+   * @throws {EditError} If the target matches no location or several
+   */
+  async resolveTarget(
+    document: TextDocument,
+    target: CodeTarget
+  ): Promise<Range> {
+    if (target.type === 'range') {
+      if (!target.range) {
+        throw new EditError('Range target requires a range', 'INVALID_TARGET', {
+          target,
+        });
+      }
+      return target.range;
+    }
+
+    if (!target.name) {
+      throw new EditError(
+        `${target.type} target requires a name`,
+        'INVALID_TARGET',
+        { target }
+      );
+    }
+
+    const occurrence = this.getOccurrence(target);
+
+    if (target.type === 'import') {
+      return this.pickCandidate(
+        this.findImports(document, target.name),
+        occurrence,
+        `Import ${target.name}`,
+        { target }
+      ).range;
+    }
+
+    const server = await this.lspManager.getServer(document.languageId);
+    await server.syncDocument(document.uri, document.getText());
+    const symbols = await server.getDocumentSymbols(document.uri);
+
+    const matches = this.findSymbols(document, symbols, target);
+    const candidate = this.pickCandidate(
+      matches.map((symbol, index) => ({
+        occurrence: index + 1,
+        range: symbol.range,
+        preview: this.getLinePreview(
+          document,
+          symbol.selectionRange.start.line
+        ),
+        name: symbol.name,
+        kind: symbol.kind,
+      })),
+      occurrence,
+      `${target.type} ${target.name}`,
+      { target }
+    );
+
+    const range = this.selectPart(
+      document,
+      matches[candidate.occurrence - 1],
+      (target.properties?.part as TargetPart | undefined) ?? 'declaration'
+    );
+
+    this.logger.debug('Resolved code target', {
+      target,
+      range,
+    });
+
+    return range;
+  }
+
+  /**
+   * Finds symbols matching a target's name path and kind
+   */
+  private findSymbols(
+    document: TextDocument,
+    symbols: DocumentSymbol[],
+    target: CodeTarget
+  ): DocumentSymbol[] {
+    const path = target.name!.split('.');
+    const kinds = TARGET_SYMBOL_KINDS[target.type];
+    const matches: DocumentSymbol[] = [];
+
+    const visit = (symbol: DocumentSymbol, ancestors: string[]): void => {
+      const names = [...ancestors, symbol.name];
+      const isPathMatch =
+        names.length >= path.length &&
+        path.every(
+          (segment, index) =>
+            names[names.length - path.length + index] === segment
+        );
+
+      if (
+        isPathMatch &&
+        (!kinds || kinds.includes(symbol.kind)) &&
+        this.matchesTargetType(document, symbol, target.type)
+      ) {
+        matches.push(symbol);
+      }
+
+      symbol.children?.forEach((child) => visit(child, names));
+    };
+
+    symbols.forEach((symbol) => visit(symbol, []));
+    return matches;
+  }
+
+  /**
+   * Only accepts variables as functions or components when they hold one
+   */
+  private matchesTargetType(
+    document: TextDocument,
+    symbol: DocumentSymbol,
+    type: CodeTargetType
+  ): boolean {
+    if (
+      (type !== 'function' && type !== 'component') ||
+      !VARIABLE_KINDS.includes(symbol.kind)
+    ) {
+      return true;
+    }
+
+    return /=>|\bfunction\b/.test(document.getText(symbol.range));
+  }
+
+  /**
+   * Narrows a symbol's range to the requested part
+   */
+  private selectPart(
+    document: TextDocument,
+    symbol: DocumentSymbol,
+    part: TargetPart
+  ): Range {
+    switch (part) {
+      case 'name':
+        return symbol.selectionRange;
+
+      case 'body': {
+        const text = document.getText(symbol.range);
+        const start = document.offsetAt(symbol.range.start);
+        const close = text.lastIndexOf('}');
+        const open = close === -1 ? -1 : this.findOpeningBrace(text, close);
+
+        if (open === -1) {
+          throw new EditError(
+            `${symbol.name} has no block body`,
+            'TARGET_NOT_FOUND',
+            { symbol: symbol.name, part }
+          );
+        }
+
+        return Range.create(
+          document.positionAt(start + open + 1),
+          document.positionAt(start + close)
+        );
+      }
+
+      default:
+        return symbol.range;
+    }
+  }
+
+  /**
+   * Finds the brace opening the block closed at the given offset
+   */
+  private findOpeningBrace(text: string, close: number): number {
+    let depth = 0;
+    for (let offset = close; offset >= 0; offset--) {
+      if (text[offset] === '}') {
+        depth++;
+      } else if (text[offset] === '{' && --depth === 0) {
+        return offset;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Finds import declarations by module specifier or imported name
+   */
+  private findImports(document: TextDocument, name: string): TargetCandidate[] {
+    return parseImports(document.getText())
+      .filter(
+        (info) =>
+          info.moduleSpecifier === name || getImportedNames(info).includes(name)
+      )
+      .map((info, index) => {
+        const range = Range.create(
+          document.positionAt(info.start),
+          document.positionAt(info.end)
+        );
+        return {
+          occurrence: index + 1,
+          range,
+          preview: this.getLinePreview(document, range.start.line),
+        };
+      });
+  }
+
+  private getOccurrence(target: CodeTarget): number | undefined {
+    const occurrence = target.properties?.occurrence;
+    return typeof occurrence === 'number' ? occurrence : undefined;
+  }
+
+  /**
+   * Picks the requested candidate, or the only one when no occurrence is given
+   * @throws {EditError} If no candidate or several candidates match
+   */
+  private pickCandidate(
+    candidates: TargetCandidate[],
+    occurrence: number | undefined,
+    description: string,
+    details: Record<string, unknown>
+  ): TargetCandidate {
+    if (occurrence !== undefined) {
+      const candidate = candidates[occurrence - 1];
+      if (!candidate) {
+        throw new EditError(
+          `Occurrence ${occurrence} of ${description} not found (${candidates.length} found)`,
+          'TARGET_NOT_FOUND',
+          { ...details, candidates: this.reportCandidates(candidates) }
+        );
+      }
+      return candidate;
+    }
+
+    if (candidates.length === 0) {
+      throw new EditError(`${description} not found`, 'TARGET_NOT_FOUND', {
+        ...details,
+        candidates: [],
+      });
+    }
+
+    if (candidates.length > 1) {
+      throw new EditError(
+        `${description} matches ${candidates.length} locations; add context or an occurrence`,
+        'AMBIGUOUS_TARGET',
+        { ...details, candidates: this.reportCandidates(candidates) }
+      );
+    }
+
+    return candidates[0];
+  }
+
+  /**
+   * Checks the before/after context of a match, ignoring whitespace at the
+   * boundary so context lines can be given without exact indentation
+   */
+  private matchesContext(
+    text: string,
+    start: number,
+    end: number,
+    anchor: TextAnchor
+  ): boolean {
+    // Only the text next to the match is compared, as anchors are meant for
+    // large files with many occurrences
+    const before = anchor.before?.trim();
+    if (before) {
+      let contextEnd = start;
+      while (contextEnd > 0 && /\s/.test(text[contextEnd - 1])) {
+        contextEnd--;
+      }
+      if (
+        contextEnd < before.length ||
+        text.slice(contextEnd - before.length, contextEnd) !== before
+      ) {
+        return false;
+      }
+    }
+
+    const after = anchor.after?.trim();
+    if (after) {
+      let contextStart = end;
+      while (contextStart < text.length && /\s/.test(text[contextStart])) {
+        contextStart++;
+      }
+      if (text.slice(contextStart, contextStart + after.length) !== after) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private getLinePreview(document: TextDocument, line: number): string {
+    return document
+      .getText(Range.create(line, 0, line + 1, 0))
+      .replace(/\r?\n$/, '');
+  }
+
+  private reportCandidates(candidates: TargetCandidate[]): TargetCandidate[] {
+    return candidates.slice(0, MAX_REPORTED_CANDIDATES);
+  }
+}
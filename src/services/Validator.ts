@@ -2,10 +2,16 @@ import {
   Diagnostic,
   DiagnosticSeverity,
   Range,
+  TextEdit,
 } from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import { EditOperation } from '../types/editor.js';
 import { LSPManager } from '../types/lsp.js';
-import { ValidationError, ValidationResult } from '../types/validator.js';
+import {
+  SimulationResult,
+  ValidationError,
+  ValidationResult,
+} from '../types/validator.js';
 import { Logger } from '../utils/logger.js';
 
 export class Validator {
@@ -301,94 +307,125 @@ export class Validator {
     operation: EditOperation,
     content: string
   ): Promise<string> {
-    const lines = content.split('\n');
+    const document = TextDocument.create('', '', 0, content);
 
     switch (operation.type) {
       case 'insert': {
-        if (operation.position) {
-          const before = lines
-            .slice(0, operation.position.line)
-            .concat(
-              lines[operation.position.line]?.slice(
-                0,
-                operation.position.character
-              ) || ''
-            )
-            .join('\n');
-          const after =
-            (lines[operation.position.line]?.slice(
-              operation.position.character
-            ) || '') +
-            '\n' +
-            lines.slice(operation.position.line + 1).join('\n');
-          return Promise.resolve(before + (operation.content || '') + after);
-        }
-        if (operation.range) {
-          const before = lines
-            .slice(0, operation.range.start.line)
-            .concat(
-              lines[operation.range.start.line]?.slice(
-                0,
-                operation.range.start.character
-              ) || ''
-            )
-            .join('\n');
-          const after =
-            (lines[operation.range.end.line]?.slice(
-              operation.range.end.character
-            ) || '') +
-            '\n' +
-            lines.slice(operation.range.end.line + 1).join('\n');
-          return Promise.resolve(before + (operation.content || '') + after);
+        const range =
+          operation.range ??
+          (operation.position &&
+            Range.create(operation.position, operation.position));
+        if (range) {
+          return this.simulateEdits(document, [
+            { range, newText: operation.content || '' },
+          ]);
         }
         break;
       }
 
-      case 'delete': {
+      case 'delete':
+      case 'replace': {
         if (operation.range) {
-          const before = lines
-            .slice(0, operation.range.start.line)
-            .concat(
-              lines[operation.range.start.line].slice(
-                0,
-                operation.range.start.character
-              )
-            )
-            .join('\n');
-          const after =
-            lines[operation.range.end.line].slice(
-              operation.range.end.character
-            ) +
-            '\n' +
-            lines.slice(operation.range.end.line + 1).join('\n');
-          return before + after;
+          return this.simulateEdits(document, [
+            { range: operation.range, newText: operation.content || '' },
+          ]);
         }
         break;
       }
+    }
 
-      case 'replace': {
-        if (operation.range) {
-          const before = lines
-            .slice(0, operation.range.start.line)
-            .concat(
-              lines[operation.range.start.line].slice(
-                0,
-                operation.range.start.character
-              )
-            )
-            .join('\n');
-          const after =
-            lines[operation.range.end.line].slice(
-              operation.range.end.character
-            ) +
-            '\n' +
-            lines.slice(operation.range.end.line + 1).join('\n');
-          return before + (operation.content || '') + after;
-        }
-        break;
+    return content;
+  }
+
+  /**
+   * Gets the content a document would have after applying edits
+   * @param document Document to edit
+   * @param edits Edits, all relative to the document
+   */
+  simulateEdits(document: TextDocument, edits: TextEdit[]): string {
+    return TextDocument.applyEdits(document, edits);
+  }
+
+  /**
+   * Validates the content a document would have after applying edits,
+   * without changing the document. The language server is brought back to
+   * the document's current content afterwards, which also yields the
+   * diagnostics to compare against.
+   * @param document Document to edit
+   * @param edits Edits, all relative to the document
+   */
+  async validateSimulatedEdits(
+    document: TextDocument,
+    edits: TextEdit[]
+  ): Promise<SimulationResult> {
+    const content = this.simulateEdits(document, edits);
+
+    let diagnostics: Diagnostic[];
+    try {
+      diagnostics = await this.validateSyntax(
+        content,
+        document.languageId,
+        document.uri
+      );
+    } catch (error) {
+      const server = await this.lspManager.getServer(document.languageId);
+      await server.syncDocument(document.uri, document.getText());
+      throw error;
+    }
+
+    const baseline = await this.validateSyntax(
+      document.getText(),
+      document.languageId,
+      document.uri
+    );
+
+    return { content, diagnostics, baseline };
+  }
+
+  /**
+   * Validates the contents several documents would have after a change that
+   * spans them, without changing the documents. Every document gets its new
+   * content before any is validated, so references between them are checked
+   * against the change as a whole. The language server is brought back to
+   * the current contents afterwards, which also yields the diagnostics to
+   * compare against.
+   * @param files Documents and the content each would have
+   */
+  async validateSimulatedFiles(
+    files: { document: TextDocument; content: string }[]
+  ): Promise<SimulationResult[]> {
+    const syncAll = async (getContent: (index: number) => string) => {
+      for (const [index, { document }] of files.entries()) {
+        const server = await this.lspManager.getServer(document.languageId);
+        await server.syncDocument(document.uri, getContent(index));
+      }
+    };
+
+    const diagnostics: Diagnostic[][] = [];
+    try {
+      await syncAll((index) => files[index].content);
+      for (const { document, content } of files) {
+        diagnostics.push(
+          await this.validateSyntax(content, document.languageId, document.uri)
+        );
       }
+    } finally {
+      await syncAll((index) => files[index].document.getText());
+    }
+
+    const results: SimulationResult[] = [];
+    for (const [index, { document, content }] of files.entries()) {
+      results.push({
+        content,
+        diagnostics: diagnostics[index],
+        baseline: await this.validateSyntax(
+          document.getText(),
+          document.languageId,
+          document.uri
+        ),
+      });
     }
 
-    return Promise.resolve(content);
+    return results;
   }
 }
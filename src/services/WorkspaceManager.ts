@@ -0,0 +1,694 @@
+// src/services/WorkspaceManager.ts
+import { v4 as uuidv4 } from 'uuid';
+import { TextEdit } from 'vscode-languageserver-protocol';
+import {
+  ApplyEditOptions,
+  DiagnosticPolicy,
+  EditSession,
+  FileEditOperations,
+  HistoryEntryRef,
+  SaveMode,
+  SaveResult,
+  SessionChangeEvent,
+  WorkspaceEditResult,
+  WorkspaceFileDiagnostics,
+  WorkspaceFileOperations,
+  WorkspaceHistoryEntry,
+  WorkspaceHistoryResult,
+  WorkspaceInfo,
+  WorkspaceMember,
+  WorkspaceSession,
+} from '../types/editor.js';
+import { SessionError } from '../types/errors.js';
+import { LSPManager } from '../types/lsp.js';
+import { FileSystemManager } from '../utils/fs.js';
+import { Logger } from '../utils/logger.js';
+import { EditOperationManager } from './EditOperationManager.js';
+import { SessionManager } from './SessionManager.js';
+
+const MAX_TIMELINE_SIZE = 100;
+
+/**
+ * Groups several files under one workspace ID, so a change spanning them can
+ * be edited, validated, undone and saved as a whole. Each file is edited in
+ * an edit session of its own, and the workspace keeps one timeline of the
+ * edits made across them.
+ */
+export class WorkspaceManager {
+  private readonly workspaces: Map<string, WorkspaceSession> = new Map();
+
+  constructor(
+    private readonly sessionManager: SessionManager,
+    private readonly editManager: EditOperationManager,
+    private readonly lspManager: LSPManager,
+    private readonly fs: FileSystemManager,
+    private readonly logger: Logger,
+    private readonly allowedDirectories: string[]
+  ) {
+    this.sessionManager.onDidChangeSession((event) =>
+      this.handleSessionChange(event)
+    );
+  }
+
+  /**
+   * Opens a workspace on several files. Files that already have a session
+   * join the workspace with it; the others are opened in new sessions. Every
+   * file is opened on the language server, so diagnostics that depend on
+   * the other files reflect their edited text.
+   * @param filePaths Paths of the files to open
+   * @param languageId Language of the files
+   * @param diagnosticPolicy How edits that introduce new errors are handled
+   * @returns The created workspace
+   * @throws {SessionError} If a file cannot be opened
+   */
+  async createWorkspace(
+    filePaths: string[],
+    languageId: string,
+    diagnosticPolicy: DiagnosticPolicy = 'warn'
+  ): Promise<WorkspaceSession> {
+    if (filePaths.length === 0) {
+      throw new SessionError(
+        'A workspace needs at least one file',
+        'INVALID_WORKSPACE'
+      );
+    }
+
+    const members: WorkspaceMember[] = [];
+    try {
+      for (const filePath of filePaths) {
+        const validatedPath = await this.fs.validatePath(
+          filePath,
+          this.allowedDirectories
+        );
+        if (members.some((member) => member.filePath === validatedPath)) {
+          continue;
+        }
+
+        const existing = this.sessionManager.findSessionByPath(validatedPath);
+        const session =
+          existing ??
+          (await this.sessionManager.createSession(
+            validatedPath,
+            languageId,
+            diagnosticPolicy
+          ));
+        members.push({
+          sessionId: session.id,
+          filePath: session.filePath,
+          opened: !existing,
+        });
+      }
+
+      await this.openDocuments(members);
+    } catch (error) {
+      await this.closeMembers(members);
+      throw error;
+    }
+
+    const workspace: WorkspaceSession = {
+      id: uuidv4(),
+      languageId,
+      diagnosticPolicy,
+      members,
+      timeline: {
+        entries: [],
+        currentIndex: -1,
+        canUndo: false,
+        canRedo: false,
+      },
+      createdAt: Date.now(),
+      lastActivity: Date.now(),
+    };
+    this.workspaces.set(workspace.id, workspace);
+
+    this.logger.info('Created workspace', {
+      workspaceId: workspace.id,
+      files: members.map((member) => member.filePath),
+      languageId,
+    });
+
+    return workspace;
+  }
+
+  /**
+   * Retrieves a workspace by ID
+   * @throws {SessionError} If the workspace is not found
+   */
+  getWorkspace(workspaceId: string): WorkspaceSession {
+    const workspace = this.workspaces.get(workspaceId);
+    if (!workspace) {
+      throw new SessionError(
+        `Workspace not found: ${workspaceId}`,
+        'WORKSPACE_NOT_FOUND',
+        { workspaceId }
+      );
+    }
+
+    workspace.lastActivity = Date.now();
+    return workspace;
+  }
+
+  /**
+   * Applies edit operations to several files of a workspace as one atomic
+   * change, recorded as one entry in the workspace's timeline. Every file is
+   * edited before any is validated, and the files left unedited are
+   * validated too. If the change is rejected for new errors in any file,
+   * every file is rolled back.
+   * @param workspaceId ID of the workspace to edit
+   * @param files Operations for each file, each written against its own
+   * document
+   * @param options Diagnostic policy, overriding the workspace's, and
+   * reporting mode
+   * @param dryRun Preview the change without applying it
+   * @throws {SessionError} If a file is not in the workspace
+   */
+  async editWorkspace(
+    workspaceId: string,
+    files: WorkspaceFileOperations[],
+    options: Omit<ApplyEditOptions, 'documentVersion'> = {},
+    dryRun: boolean = false
+  ): Promise<WorkspaceEditResult> {
+    const workspace = this.getWorkspace(workspaceId);
+
+    const fileOperations: FileEditOperations[] = [];
+    for (const file of files) {
+      const member = await this.findMember(workspace, file.filePath);
+      fileOperations.push({
+        sessionId: member.sessionId,
+        operations: file.operations,
+        documentVersion: file.documentVersion,
+      });
+    }
+
+    // The other files are validated too, so errors the change causes in
+    // them are reported
+    for (const member of workspace.members) {
+      if (
+        !fileOperations.some(
+          (operations) => operations.sessionId === member.sessionId
+        )
+      ) {
+        fileOperations.push({ sessionId: member.sessionId, operations: [] });
+      }
+    }
+
+    const details = { workspaceId };
+    if (dryRun) {
+      return this.editManager.previewFileOperations(
+        fileOperations,
+        options,
+        details
+      );
+    }
+
+    const result = await this.editManager.applyFileOperations(
+      fileOperations,
+      {
+        ...options,
+        diagnosticPolicy:
+          options.diagnosticPolicy ?? workspace.diagnosticPolicy,
+      },
+      details
+    );
+
+    // Rejected changes were rolled back and leave nothing to undo
+    if (!result.error) {
+      await this.recordEntry(workspace, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Applies text edits computed for several files of a workspace, such as
+   * an import cleanup, as one atomic change recorded as one entry in the
+   * workspace's timeline
+   * @param workspaceId ID of the workspace to edit
+   * @param files Edits for each file, against its current document
+   * @param options Diagnostic policy, overriding the workspace's, and
+   * reporting mode
+   * @param details Describes the source of the edits in logs and errors
+   * @throws {SessionError} If a file is not in the workspace
+   */
+  async applyTextEdits(
+    workspaceId: string,
+    files: { sessionId: string; edits: TextEdit[] }[],
+    options: Omit<ApplyEditOptions, 'documentVersion'> = {},
+    details: Record<string, unknown> = {}
+  ): Promise<WorkspaceEditResult> {
+    const workspace = this.getWorkspace(workspaceId);
+
+    const changes: Record<string, TextEdit[]> = {};
+    let originSessionId: string | undefined;
+    for (const file of files) {
+      if (file.edits.length === 0) {
+        continue;
+      }
+      const session = await this.sessionManager.getSession(file.sessionId);
+      await this.findMember(workspace, session.filePath);
+      changes[session.document.uri] = file.edits;
+      originSessionId ??= session.id;
+    }
+
+    if (!originSessionId) {
+      return { success: true, files: [] };
+    }
+
+    const result = await this.editManager.applyWorkspaceEdits(
+      originSessionId,
+      [{ changes }],
+      {
+        ...options,
+        diagnosticPolicy:
+          options.diagnosticPolicy ?? workspace.diagnosticPolicy,
+      },
+      { workspaceId, ...details }
+    );
+
+    if (!result.error) {
+      await this.recordEntry(workspace, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Validates every file of a workspace. The language server is brought up
+   * to date with all of them first, so each is checked against the current
+   * text of the others.
+   * @param workspaceId ID of the workspace to validate
+   */
+  async validateWorkspace(
+    workspaceId: string
+  ): Promise<WorkspaceFileDiagnostics[]> {
+    const workspace = this.getWorkspace(workspaceId);
+    const sessions = await this.openDocuments(workspace.members);
+    const server = await this.lspManager.getServer(workspace.languageId);
+
+    const results: WorkspaceFileDiagnostics[] = [];
+    for (const { id, filePath, document } of sessions) {
+      const diagnostics = await server.validateDocument(
+        document.uri,
+        document.getText()
+      );
+      await this.sessionManager.updateValidationState(
+        id,
+        diagnostics,
+        document.version
+      );
+      results.push({
+        filePath,
+        sessionId: id,
+        documentVersion: document.version,
+        diagnostics,
+      });
+    }
+
+    this.logger.debug('Validated workspace', {
+      workspaceId,
+      diagnosticsCount: results.reduce(
+        (count, result) => count + result.diagnostics.length,
+        0
+      ),
+    });
+
+    return results;
+  }
+
+  /**
+   * Undoes the last edit of a workspace in every file it changed
+   * @throws {SessionError} If a file was edited outside the workspace since,
+   * so its history no longer ends with the workspace's edit
+   */
+  async undo(workspaceId: string): Promise<WorkspaceHistoryResult> {
+    const workspace = this.getWorkspace(workspaceId);
+    const { timeline } = workspace;
+
+    if (!timeline.canUndo) {
+      return this.describeHistoryResult(workspace, false, []);
+    }
+
+    const entry = timeline.entries[timeline.currentIndex];
+    // Each file's history must still end with the workspace's edit
+    await this.checkHistory(
+      workspace,
+      entry,
+      (history, file) =>
+        history.operations[history.currentIndex] === file.operation
+    );
+
+    await this.stepFiles(
+      [...entry.files].reverse(),
+      (sessionId) => this.sessionManager.undo(sessionId),
+      (sessionId) => this.sessionManager.redo(sessionId)
+    );
+
+    timeline.currentIndex--;
+    timeline.canUndo = timeline.currentIndex >= 0;
+    timeline.canRedo = true;
+
+    this.logger.debug('Undid workspace edit', {
+      workspaceId,
+      newTimelineIndex: timeline.currentIndex,
+    });
+
+    return this.describeHistoryResult(workspace, true, entry.files);
+  }
+
+  /**
+   * Redoes the last undone edit of a workspace in every file it changed
+   * @throws {SessionError} If a file was edited outside the workspace since
+   * the edit was undone
+   */
+  async redo(workspaceId: string): Promise<WorkspaceHistoryResult> {
+    const workspace = this.getWorkspace(workspaceId);
+    const { timeline } = workspace;
+
+    if (!timeline.canRedo) {
+      return this.describeHistoryResult(workspace, false, []);
+    }
+
+    const entry = timeline.entries[timeline.currentIndex + 1];
+    // Each file's history must still have the edit next to redo
+    await this.checkHistory(
+      workspace,
+      entry,
+      (history, file) =>
+        history.operations[history.currentIndex + 1] === file.operation
+    );
+
+    await this.stepFiles(
+      entry.files,
+      (sessionId) => this.sessionManager.redo(sessionId),
+      (sessionId) => this.sessionManager.undo(sessionId)
+    );
+
+    timeline.currentIndex++;
+    timeline.canUndo = true;
+    timeline.canRedo = timeline.currentIndex < timeline.entries.length - 1;
+
+    this.logger.debug('Redid workspace edit', {
+      workspaceId,
+      newTimelineIndex: timeline.currentIndex,
+    });
+
+    return this.describeHistoryResult(workspace, true, entry.files);
+  }
+
+  /**
+   * Saves every changed file of a workspace together: either all of them
+   * are written or none is
+   * @param workspaceId ID of the workspace to save
+   * @param mode How to handle files changed on disk in the meantime
+   * @returns The result of the save, for each file written
+   * @throws {SessionError} If a file changed on disk and cannot be saved
+   */
+  async saveWorkspace(
+    workspaceId: string,
+    mode: SaveMode = 'safe'
+  ): Promise<SaveResult[]> {
+    const workspace = this.getWorkspace(workspaceId);
+
+    const sessionIds: string[] = [];
+    for (const member of workspace.members) {
+      const session = await this.sessionManager.getSession(member.sessionId);
+      if (session.state.isDirty) {
+        sessionIds.push(session.id);
+      }
+    }
+
+    return this.sessionManager.saveSessions(sessionIds, mode);
+  }
+
+  /**
+   * Describes a workspace and its files without counting as activity on it
+   * @throws {SessionError} If the workspace is not found
+   */
+  getWorkspaceInfo(workspaceId: string): WorkspaceInfo {
+    const workspace = this.workspaces.get(workspaceId);
+    if (!workspace) {
+      throw new SessionError(
+        `Workspace not found: ${workspaceId}`,
+        'WORKSPACE_NOT_FOUND',
+        { workspaceId }
+      );
+    }
+
+    const { timeline } = workspace;
+    return {
+      workspaceId: workspace.id,
+      languageId: workspace.languageId,
+      diagnosticPolicy: workspace.diagnosticPolicy,
+      files: workspace.members.map((member) =>
+        this.sessionManager.getSessionInfo(member.sessionId)
+      ),
+      timeline: {
+        depth: timeline.entries.length,
+        currentIndex: timeline.currentIndex,
+        canUndo: timeline.canUndo,
+        canRedo: timeline.canRedo,
+      },
+      createdAt: workspace.createdAt,
+      lastActivity: workspace.lastActivity,
+      idleTime: Date.now() - workspace.lastActivity,
+    };
+  }
+
+  /**
+   * Closes a workspace, and the sessions it opened for its files. Sessions
+   * that were already open stay open.
+   * @throws {SessionError} If the workspace is not found
+   */
+  async closeWorkspace(workspaceId: string): Promise<void> {
+    const workspace = this.getWorkspace(workspaceId);
+    this.workspaces.delete(workspaceId);
+
+    await this.closeMembers(workspace.members);
+
+    this.logger.info('Closed workspace', { workspaceId });
+  }
+
+  /**
+   * Finds the member of a workspace editing a file
+   * @throws {SessionError} If the file is not in the workspace
+   */
+  private async findMember(
+    workspace: WorkspaceSession,
+    filePath: string
+  ): Promise<WorkspaceMember> {
+    const validatedPath = await this.fs.validatePath(
+      filePath,
+      this.allowedDirectories
+    );
+    const member = workspace.members.find(
+      (candidate) => candidate.filePath === validatedPath
+    );
+
+    if (!member) {
+      throw new SessionError(
+        `File is not in the workspace: ${filePath}`,
+        'FILE_NOT_IN_WORKSPACE',
+        {
+          workspaceId: workspace.id,
+          filePath,
+          files: workspace.members.map((candidate) => candidate.filePath),
+        }
+      );
+    }
+
+    return member;
+  }
+
+  /**
+   * Brings the language server up to date with the documents of a
+   * workspace's files, opening those it hasn't seen
+   * @returns The sessions of the files
+   */
+  private async openDocuments(
+    members: WorkspaceMember[]
+  ): Promise<EditSession[]> {
+    const sessions: EditSession[] = [];
+    for (const member of members) {
+      const session = await this.sessionManager.getSession(member.sessionId);
+      const server = await this.lspManager.getServer(session.languageId);
+      await server.syncDocument(
+        session.document.uri,
+        session.document.getText()
+      );
+      sessions.push(session);
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Records an applied workspace edit in the timeline, with the history
+   * entry it left in each file it changed
+   */
+  private async recordEntry(
+    workspace: WorkspaceSession,
+    result: WorkspaceEditResult
+  ): Promise<void> {
+    const files: WorkspaceHistoryEntry['files'] = [];
+    for (const file of result.files) {
+      if (!file.sessionId || !file.changes?.length) {
+        continue;
+      }
+
+      const { editHistory } = (
+        await this.sessionManager.getSession(file.sessionId)
+      ).state;
+      files.push({
+        sessionId: file.sessionId,
+        filePath: file.filePath,
+        operation: editHistory.operations[editHistory.currentIndex],
+      });
+    }
+
+    if (files.length === 0) {
+      return;
+    }
+
+    const timeline = workspace.timeline;
+
+    // A new edit discards the edits that were undone
+    timeline.entries = timeline.entries.slice(0, timeline.currentIndex + 1);
+    timeline.entries.push({ timestamp: Date.now(), files });
+
+    if (timeline.entries.length > MAX_TIMELINE_SIZE) {
+      timeline.entries = timeline.entries.slice(-MAX_TIMELINE_SIZE);
+    }
+
+    timeline.currentIndex = timeline.entries.length - 1;
+    timeline.canUndo = true;
+    timeline.canRedo = false;
+  }
+
+  /**
+   * Undoes or redoes a timeline entry in each of its files, in order. If a
+   * file fails, the files already stepped are stepped back, so the entry is
+   * either applied in every file or in none.
+   * @param files Files of the entry, in the order to step them
+   * @param step Undoes or redoes a session's last edit
+   * @param revert Reverses step
+   */
+  private async stepFiles(
+    files: HistoryEntryRef[],
+    step: (sessionId: string) => Promise<boolean>,
+    revert: (sessionId: string) => Promise<boolean>
+  ): Promise<void> {
+    const stepped: HistoryEntryRef[] = [];
+    try {
+      for (const file of files) {
+        await step(file.sessionId);
+        stepped.push(file);
+      }
+    } catch (error) {
+      for (const file of stepped.reverse()) {
+        await revert(file.sessionId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Checks that the history of every file of a timeline entry is where the
+   * workspace left it, before any file is undone or redone
+   * @throws {SessionError} If a file's history moved on
+   */
+  private async checkHistory(
+    workspace: WorkspaceSession,
+    entry: WorkspaceHistoryEntry,
+    isInPlace: (
+      history: EditSession['state']['editHistory'],
+      file: WorkspaceHistoryEntry['files'][number]
+    ) => boolean
+  ): Promise<void> {
+    for (const file of entry.files) {
+      const session = await this.sessionManager.getSession(file.sessionId);
+      if (!isInPlace(session.state.editHistory, file)) {
+        throw new SessionError(
+          `File was edited outside the workspace since: ${file.filePath}`,
+          'HISTORY_DIVERGED',
+          {
+            workspaceId: workspace.id,
+            filePath: file.filePath,
+            sessionId: file.sessionId,
+          }
+        );
+      }
+    }
+  }
+
+  private async describeHistoryResult(
+    workspace: WorkspaceSession,
+    success: boolean,
+    files: WorkspaceHistoryEntry['files']
+  ): Promise<WorkspaceHistoryResult> {
+    const results = [];
+    for (const { sessionId, filePath } of files) {
+      const session = await this.sessionManager.getSession(sessionId);
+      results.push({
+        filePath,
+        sessionId,
+        documentVersion: session.document.version,
+      });
+    }
+
+    return {
+      success,
+      files: results,
+      canUndo: workspace.timeline.canUndo,
+      canRedo: workspace.timeline.canRedo,
+    };
+  }
+
+  /**
+   * Closes the sessions a workspace opened, skipping those already closed
+   */
+  private async closeMembers(members: WorkspaceMember[]): Promise<void> {
+    for (const member of members) {
+      if (
+        member.opened &&
+        this.sessionManager
+          .listSessions()
+          .some((session) => session.sessionId === member.sessionId)
+      ) {
+        await this.sessionManager.closeSession(member.sessionId);
+      }
+    }
+  }
+
+  /**
+   * Follows sessions whose files were renamed, and drops closed sessions
+   * from the workspaces they belong to, and workspaces left without files
+   */
+  private handleSessionChange(event: SessionChangeEvent): void {
+    if (event.kind === 'moved') {
+      const { filePath } = this.sessionManager.getSessionInfo(event.sessionId);
+      for (const workspace of this.workspaces.values()) {
+        for (const member of workspace.members) {
+          if (member.sessionId === event.sessionId) {
+            member.filePath = filePath;
+          }
+        }
+      }
+      return;
+    }
+
+    if (event.kind !== 'closed') {
+      return;
+    }
+
+    for (const [workspaceId, workspace] of this.workspaces) {
+      workspace.members = workspace.members.filter(
+        (member) => member.sessionId !== event.sessionId
+      );
+
+      if (workspace.members.length === 0) {
+        this.workspaces.delete(workspaceId);
+        this.logger.info('Closed workspace without files', { workspaceId });
+      }
+    }
+  }
+}
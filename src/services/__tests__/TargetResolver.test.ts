@@ -0,0 +1,68 @@
+import { describe, expect, it } from '@jest/globals';
+import { Range } from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { LSPManager } from '../../types/lsp.js';
+import { Logger } from '../../utils/logger.js';
+import { TargetResolver } from '../TargetResolver.js';
+
+const logger: Logger = {
+  log: () => {},
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+const resolver = new TargetResolver({} as LSPManager, logger);
+
+const document = TextDocument.create(
+  'file:///a.ts',
+  'typescript',
+  1,
+  [
+    'function a() {',
+    '  return 1;',
+    '}',
+    'function b() {',
+    '  return 1;',
+    '}',
+  ].join('\n')
+);
+
+describe('TargetResolver.resolveAnchor', () => {
+  it('picks the occurrence whose context matches, ignoring indentation', () => {
+    expect(
+      resolver.resolveAnchor(document, {
+        text: 'return 1;',
+        before: 'function b() {\n',
+      })
+    ).toEqual(Range.create(4, 2, 4, 11));
+    expect(
+      resolver.resolveAnchor(document, {
+        text: 'return 1;',
+        after: '  }\nfunction b',
+      })
+    ).toEqual(Range.create(1, 2, 1, 11));
+  });
+
+  it('rejects context that only partly matches', () => {
+    expect(() =>
+      resolver.resolveAnchor(document, {
+        text: 'return 1;',
+        before: 'function c() {',
+      })
+    ).toThrow('not found');
+    expect(() =>
+      resolver.resolveAnchor(document, { text: 'function a', before: 'x' })
+    ).toThrow('not found');
+    expect(() =>
+      resolver.resolveAnchor(document, { text: '}', after: '}' })
+    ).toThrow('not found');
+  });
+
+  it('reports anchors without enough context as ambiguous', () => {
+    expect(() =>
+      resolver.resolveAnchor(document, { text: 'return 1;', before: '{' })
+    ).toThrow('matches 2 locations');
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it } from '@jest/globals';
+import { Range } from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CodeTarget, ImportSpec, PropSpec } from '../../../types/editor.js';
+import { Logger } from '../../../utils/logger.js';
+import { TargetResolver } from '../../TargetResolver.js';
+import { TypeScriptEditBuilder } from '../typescriptEdits.js';
+
+const logger: Logger = {
+  log: () => {},
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+function addImport(text: string, spec: ImportSpec): string {
+  const builder = new TypeScriptEditBuilder({} as TargetResolver, logger);
+  const document = TextDocument.create('file:///a.ts', 'typescript', 1, text);
+  return TextDocument.applyEdits(
+    document,
+    builder.buildAddImport(document, spec)
+  );
+}
+
+/**
+ * Resolves interfaces up to their first closing brace and components to the
+ * end of the text, which is all the addProp tests need
+ */
+const targetResolver = {
+  async resolveTarget(document: TextDocument, target: CodeTarget) {
+    const text = document.getText();
+    const keyword = target.type === 'interface' ? 'interface' : 'function';
+    const start = text.indexOf(`${keyword} ${target.name}`);
+    const end =
+      target.type === 'interface' ? text.indexOf('}', start) + 1 : text.length;
+    return Range.create(document.positionAt(start), document.positionAt(end));
+  },
+} as TargetResolver;
+
+async function addProp(text: string, prop: PropSpec): Promise<string> {
+  const builder = new TypeScriptEditBuilder(targetResolver, logger);
+  const document = TextDocument.create(
+    'file:///a.tsx',
+    'typescriptreact',
+    1,
+    text
+  );
+  return TextDocument.applyEdits(
+    document,
+    await builder.buildAddProp(
+      document,
+      { type: 'component', name: 'Button' },
+      prop
+    )
+  );
+}
+
+describe('TypeScriptEditBuilder.buildAddImport', () => {
+  it('merges named imports into a declaration from the same module', () => {
+    expect(
+      addImport("import React, { useState } from 'react';\n", {
+        module: 'react',
+        named: ['useEffect'],
+      })
+    ).toBe("import React, { useState, useEffect } from 'react';\n");
+  });
+
+  it('keeps a multi-line declaration on several lines', () => {
+    expect(
+      addImport("import {\n  a,\n} from './ab';\n", {
+        module: './ab',
+        named: ['b'],
+      })
+    ).toBe("import {\n  a,\n  b,\n} from './ab';\n");
+  });
+
+  it('skips bindings that are already imported', () => {
+    const text = "import { useState as state } from 'react';\n";
+
+    expect(
+      addImport(text, { module: 'react', named: ['useState as state'] })
+    ).toBe(text);
+    expect(
+      addImport(text, {
+        module: 'react',
+        named: ['useState as state', 'useId'],
+      })
+    ).toBe("import { useState as state, useId } from 'react';\n");
+  });
+
+  it('does not merge into type-only declarations', () => {
+    expect(
+      addImport('import type { FC } from "react"\n', {
+        module: 'react',
+        named: ['useState'],
+      })
+    ).toBe(
+      'import type { FC } from "react"\nimport { useState } from "react"\n'
+    );
+  });
+
+  it('adds namespace and named imports as separate declarations', () => {
+    expect(
+      addImport("import fs from 'fs';\n", {
+        module: 'path',
+        namespace: 'path',
+        named: ['join'],
+      })
+    ).toBe(
+      "import fs from 'fs';\nimport * as path from 'path';\nimport { join } from 'path';\n"
+    );
+  });
+
+  it('inserts the first import after leading comments and directives', () => {
+    expect(
+      addImport("// header\n'use client';\nconst a = 1;\n", {
+        module: 'react',
+        default: 'React',
+      })
+    ).toBe(
+      "// header\n'use client';\nimport React from 'react';\nconst a = 1;\n"
+    );
+  });
+});
+
+describe('TypeScriptEditBuilder.buildAddProp', () => {
+  const component = [
+    'interface ButtonProps {',
+    '  label: string;',
+    '}',
+    'function Button({ label }: ButtonProps) {',
+    '  return label;',
+    '}',
+  ].join('\n');
+
+  it('adds the prop to the interface and the destructuring', async () => {
+    expect(
+      await addProp(component, {
+        name: 'size',
+        type: 'number',
+        defaultValue: '1',
+      })
+    ).toBe(
+      component
+        .replace('  label: string;\n', '  label: string;\n  size: number;\n')
+        .replace('{ label }', '{ label, size = 1 }')
+    );
+  });
+
+  it('finds declared props whose names contain `$`', async () => {
+    const text = component
+      .replace('label: string', '$store: Store')
+      .replace('{ label }', '{ $store }');
+
+    expect(await addProp(text, { name: '$store', type: 'Store' })).toBe(text);
+    expect(await addProp(text, { name: 'store', type: 'Store' })).toBe(
+      text
+        .replace('  $store: Store;\n', '  $store: Store;\n  store: Store;\n')
+        .replace('{ $store }', '{ $store, store }')
+    );
+  });
+
+  it('treats regular expression characters in names literally', async () => {
+    const text = component.replace('label: string', 'axb: string');
+
+    expect(await addProp(text, { name: 'a.b', type: 'string' })).toContain(
+      '  axb: string;\n  a.b: string;\n'
+    );
+    await expect(
+      addProp(text, { name: 'a(b', type: 'string' })
+    ).resolves.toContain('  a(b: string;\n');
+  });
+});
@@ -1,13 +1,22 @@
 // src/services/languages/typescript.ts
 import { ChildProcess, spawn } from 'child_process';
+import { readFile } from 'fs/promises';
 import path, { dirname } from 'path';
 import { fileURLToPath } from 'url';
 import {
+  ApplyWorkspaceEditRequest,
+  CallHierarchyIncomingCall,
+  CallHierarchyIncomingCallsRequest,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CallHierarchyOutgoingCallsRequest,
+  CallHierarchyPrepareRequest,
   CodeAction,
   CodeActionRequest,
   Command,
   CompletionItem,
   CompletionRequest,
+  CompletionResolveRequest,
   createProtocolConnection,
   DefinitionRequest,
   Diagnostic,
@@ -15,22 +24,49 @@ import {
   DidCloseTextDocumentNotification,
   DidOpenTextDocumentNotification,
   DocumentFormattingRequest,
+  DocumentRangeFormattingRequest,
+  DocumentSymbol,
+  DocumentSymbolRequest,
+  ExecuteCommandRequest,
+  Hover,
+  HoverRequest,
+  ImplementationRequest,
+  InitializedNotification,
   InitializeParams,
   InitializeRequest,
+  InlayHint,
+  InlayHintRequest,
   Location,
   LocationLink,
   Position,
+  PrepareRenameRequest,
+  PrepareRenameResult,
   ProtocolConnection,
   Range,
+  ReferencesRequest,
+  RenameRequest,
+  ResponseError,
+  SignatureHelp,
+  SignatureHelpRequest,
+  SymbolInformation,
+  SymbolKind,
   TextEdit,
+  TypeHierarchyItem,
+  WillRenameFilesRequest,
+  WorkspaceEdit,
+  WorkspaceSymbolRequest,
 } from 'vscode-languageserver-protocol';
 import {
   StreamMessageReader,
   StreamMessageWriter,
 } from 'vscode-languageserver-protocol/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 import { BaseError } from '../../types/errors.js';
+import { LanguageFormatOptions } from '../../types/language.js';
+import { findHeritageNames } from '../../utils/heritage.js';
 import { Logger } from '../../utils/logger.js';
+import { toDocumentSymbols, toSymbolInformation } from '../../utils/symbols.js';
 
 export class TypeScriptServerError extends BaseError {
   constructor(
@@ -52,9 +88,25 @@ interface TypeScriptServerConfig {
     includeCompletionsForImportStatements?: boolean;
     includeCompletionsWithSnippetText?: boolean;
     includeAutomaticOptionalChainCompletions?: boolean;
+    includeInlayParameterNameHints?: 'all' | 'literals' | 'none';
+    includeInlayPropertyDeclarationTypeHints?: boolean;
+    includeInlayFunctionLikeReturnTypeHints?: boolean;
+    includeInlayFunctionParameterTypeHints?: boolean;
+    includeInlayVariableTypeHints?: boolean;
+    includeInlayEnumMemberValueHints?: boolean;
+    providePrefixAndSuffixTextForRename?: boolean;
+    excludeLibrarySymbolsInNavTo?: boolean;
   };
 }
 
+const VALIDATION_TIMEOUT_MS = 3000;
+// The first check of a document waits for its project to load
+const INITIAL_VALIDATION_TIMEOUT_MS = 15000;
+const DIAGNOSTICS_SETTLE_MS = 250;
+
+/** Symbol kinds the emulated type hierarchy is built from */
+const TYPE_KINDS: SymbolKind[] = [SymbolKind.Class, SymbolKind.Interface];
+
 export class TypeScriptServer {
   private serverProcess?: ChildProcess;
   private connection?: ProtocolConnection;
@@ -64,8 +116,15 @@ export class TypeScriptServer {
     string,
     ((params: { uri: string; diagnostics: Diagnostic[] }) => void)[]
   > = new Map();
+  // Last diagnostics the server published for each document
+  private publishedDiagnostics: Map<string, Diagnostic[]> = new Map();
+  // Edits requested through workspace/applyEdit by the running command
+  private requestedWorkspaceEdits?: WorkspaceEdit[];
   // Track normalized URIs to avoid repeated normalization
   private normalizedUris: Map<string, string> = new Map();
+  // Text of the open documents, for requests answered from the source
+  private documentTexts: Map<string, TextDocument> = new Map();
+  private exitListeners: Set<(code: number | null) => void> = new Set();
 
   constructor(
     private readonly config: TypeScriptServerConfig,
@@ -110,6 +169,25 @@ export class TypeScriptServer {
     return normalized;
   }
 
+  /**
+   * Derives the LSP language ID from the file extension so JSX files are
+   * parsed as such
+   */
+  private getLanguageId(uri: string): string {
+    switch (path.extname(URI.parse(uri).path).toLowerCase()) {
+      case '.tsx':
+        return 'typescriptreact';
+      case '.jsx':
+        return 'javascriptreact';
+      case '.js':
+      case '.mjs':
+      case '.cjs':
+        return 'javascript';
+      default:
+        return 'typescript';
+    }
+  }
+
   private async initializeServer(): Promise<void> {
     if (!this.connection) {
       throw new TypeScriptServerError(
@@ -134,8 +212,45 @@ export class TypeScriptServer {
             publishDiagnostics: {
               relatedInformation: true,
             },
+            hover: {
+              contentFormat: ['markdown', 'plaintext'],
+            },
+            signatureHelp: {
+              signatureInformation: {
+                documentationFormat: ['markdown', 'plaintext'],
+                parameterInformation: {
+                  labelOffsetSupport: true,
+                },
+                activeParameterSupport: true,
+              },
+            },
+            inlayHint: {},
+            completion: {
+              completionItem: {
+                // Completions are inserted as plain text
+                snippetSupport: false,
+                documentationFormat: ['markdown', 'plaintext'],
+                labelDetailsSupport: true,
+                resolveSupport: {
+                  properties: [
+                    'documentation',
+                    'detail',
+                    'additionalTextEdits',
+                  ],
+                },
+              },
+            },
+            documentSymbol: {
+              dynamicRegistration: true,
+              hierarchicalDocumentSymbolSupport: true,
+            },
+            rename: {
+              prepareSupport: true,
+            },
+            callHierarchy: {},
             codeAction: {
               dynamicRegistration: true,
+              isPreferredSupport: true,
               codeActionLiteralSupport: {
                 codeActionKind: {
                   valueSet: [
@@ -146,21 +261,34 @@ export class TypeScriptServer {
                     'refactor.rewrite',
                     'source',
                     'source.organizeImports',
+                    'source.removeUnused',
                   ],
                 },
               },
             },
           },
           workspace: {
+            applyEdit: true,
+            workspaceEdit: {
+              documentChanges: true,
+            },
             didChangeConfiguration: {
               dynamicRegistration: true,
             },
+            symbol: {
+              dynamicRegistration: true,
+            },
+            fileOperations: {
+              willRename: true,
+            },
           },
         },
-        initializationOptions: this.config.preferences,
+        initializationOptions: { preferences: this.config.preferences },
       }
     );
 
+    await this.connection.sendNotification(InitializedNotification.type, {});
+
     this.logger.debug(
       'Server initialized with capabilities:',
       initializeResult
@@ -215,6 +343,12 @@ export class TypeScriptServer {
         this.logger.error('TypeScript server process error:', error);
       });
 
+      this.serverProcess.on('exit', (code) => {
+        this.initialized = false;
+        this.logger.info(`TypeScript server exited with code ${code}`);
+        this.exitListeners.forEach((listener) => listener(code));
+      });
+
       // Set up connection error handler
       this.connection.onError((error) => {
         const [message, ...context] = error;
@@ -230,13 +364,29 @@ export class TypeScriptServer {
             diagnosticsCount: params.diagnostics.length,
           });
 
+          this.publishedDiagnostics.set(params.uri, params.diagnostics);
+
           const handlers = this.diagnosticHandlers.get(params.uri);
           if (handlers) {
-            handlers.forEach((handler) => handler(params));
+            [...handlers].forEach((handler) => handler(params));
           }
         }
       );
 
+      // Collect the edits commands ask for; they are applied to sessions by
+      // the caller rather than reported as applied here
+      this.connection.onRequest(ApplyWorkspaceEditRequest.type, (params) => {
+        if (!this.requestedWorkspaceEdits) {
+          return { applied: false, failureReason: 'No command is running' };
+        }
+        this.requestedWorkspaceEdits.push(params.edit);
+        return { applied: true };
+      });
+
+      // After extracting a symbol the server asks the client to start
+      // renaming it, which a headless client has no use for
+      this.connection.onRequest('_typescript.rename', () => null);
+
       this.connection.listen();
       await this.initializeServer();
 
@@ -257,6 +407,14 @@ export class TypeScriptServer {
     }
   }
 
+  /**
+   * Registers a listener that is called when the server process exits,
+   * whether it was shut down or crashed
+   */
+  onExit(listener: (code: number | null) => void): void {
+    this.exitListeners.add(listener);
+  }
+
   /**
    * Opens a document in the language server
    */
@@ -278,7 +436,7 @@ export class TypeScriptServer {
         {
           textDocument: {
             uri,
-            languageId: 'typescript',
+            languageId: this.getLanguageId(uri),
             version,
             text,
           },
@@ -286,6 +444,10 @@ export class TypeScriptServer {
       );
 
       this.documentVersions.set(uri, version);
+      this.documentTexts.set(
+        uri,
+        TextDocument.create(uri, this.getLanguageId(uri), version, text)
+      );
       this.logger.debug('Opened document', { uri, version });
     } catch (error) {
       this.logger.error('Failed to open document', error as Error, { uri });
@@ -331,6 +493,7 @@ export class TypeScriptServer {
       );
 
       this.documentVersions.set(uri, version);
+      this.updateDocumentText(uri, changes, version);
       this.logger.debug('Updated document', { uri, version });
     } catch (error) {
       this.logger.error('Failed to update document', error as Error, { uri });
@@ -358,7 +521,7 @@ export class TypeScriptServer {
 
     try {
       const result = await this.connection.sendRequest(CompletionRequest.type, {
-        textDocument: { uri },
+        textDocument: { uri: this.normalizeUri(uri) },
         position,
       });
 
@@ -376,14 +539,44 @@ export class TypeScriptServer {
     }
   }
 
+  /**
+   * Resolves the documentation and additional edits of a completion item
+   */
+  async resolveCompletion(item: CompletionItem): Promise<CompletionItem> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      return await this.connection.sendRequest(
+        CompletionResolveRequest.type,
+        item
+      );
+    } catch (error) {
+      this.logger.error('Failed to resolve completion', error as Error, {
+        label: item.label,
+      });
+      throw new TypeScriptServerError(
+        'Failed to resolve completion',
+        'COMPLETION_RESOLVE_FAILED',
+        { label: item.label, error }
+      );
+    }
+  }
+
   /**
    * Gets available code actions
+   * @param only Kinds of actions to return, e.g. quickfix
    */
   async getCodeActions(
     uri: string,
     range: Range,
-    diagnostics: Diagnostic[]
-  ): Promise<CodeAction[]> {
+    diagnostics: Diagnostic[],
+    only?: string[]
+  ): Promise<(CodeAction | Command)[]> {
     if (!this.connection || !this.initialized) {
       throw new TypeScriptServerError(
         'Server not initialized',
@@ -393,17 +586,15 @@ export class TypeScriptServer {
 
     try {
       const result = await this.connection.sendRequest(CodeActionRequest.type, {
-        textDocument: { uri },
+        textDocument: { uri: this.normalizeUri(uri) },
         range,
         context: {
           diagnostics,
+          only,
         },
       });
 
-      return (Array.isArray(result) ? result : []).filter(
-        (item): item is CodeAction =>
-          !!(item as CodeAction).kind || !!(item as Command).command
-      );
+      return result ?? [];
     } catch (error) {
       this.logger.error('Failed to get code actions', error as Error, {
         uri,
@@ -417,6 +608,155 @@ export class TypeScriptServer {
     }
   }
 
+  /**
+   * Executes a command on the server
+   * @returns The workspace edits the server asked to apply while running it
+   */
+  async executeCommand(command: Command): Promise<WorkspaceEdit[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    this.requestedWorkspaceEdits = [];
+    try {
+      await this.connection.sendRequest(ExecuteCommandRequest.type, {
+        command: command.command,
+        arguments: command.arguments,
+      });
+
+      return this.requestedWorkspaceEdits;
+    } catch (error) {
+      this.logger.error('Failed to execute command', error as Error, {
+        command: command.command,
+      });
+      throw new TypeScriptServerError(
+        'Failed to execute command',
+        'EXECUTE_COMMAND_FAILED',
+        { command: command.command, error }
+      );
+    } finally {
+      this.requestedWorkspaceEdits = undefined;
+    }
+  }
+
+  /**
+   * Checks whether the symbol at a position can be renamed
+   * @returns The range of the name to rename, or null if it cannot be
+   */
+  async prepareRename(
+    uri: string,
+    position: Position
+  ): Promise<PrepareRenameResult | null> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      return await this.connection.sendRequest(PrepareRenameRequest.type, {
+        textDocument: { uri: this.normalizeUri(uri) },
+        position,
+      });
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        // The server explains why the element cannot be renamed
+        throw new TypeScriptServerError(error.message, 'RENAME_NOT_ALLOWED', {
+          uri,
+          position,
+        });
+      }
+
+      this.logger.error('Failed to prepare rename', error as Error, {
+        uri,
+        position,
+      });
+      throw new TypeScriptServerError(
+        'Failed to prepare rename',
+        'PREPARE_RENAME_FAILED',
+        { uri, position, error }
+      );
+    }
+  }
+
+  /**
+   * Gets the edits that rename the symbol at a position across the project
+   */
+  async rename(
+    uri: string,
+    position: Position,
+    newName: string
+  ): Promise<WorkspaceEdit | null> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      return await this.connection.sendRequest(RenameRequest.type, {
+        textDocument: { uri: this.normalizeUri(uri) },
+        position,
+        newName,
+      });
+    } catch (error) {
+      this.logger.error('Failed to rename', error as Error, {
+        uri,
+        position,
+        newName,
+      });
+      throw new TypeScriptServerError('Failed to rename', 'RENAME_FAILED', {
+        uri,
+        position,
+        newName,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Gets the edits that update references to a file, like import paths in
+   * other files, before the file is moved. The file must still exist at its
+   * old path.
+   */
+  async willRenameFiles(
+    oldUri: string,
+    newUri: string
+  ): Promise<WorkspaceEdit | null> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      return await this.connection.sendRequest(WillRenameFilesRequest.type, {
+        files: [
+          {
+            oldUri: this.normalizeUri(oldUri),
+            newUri: this.normalizeUri(newUri),
+          },
+        ],
+      });
+    } catch (error) {
+      this.logger.error('Failed to get file rename edits', error as Error, {
+        oldUri,
+        newUri,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get file rename edits',
+        'RENAME_FILE_FAILED',
+        { oldUri, newUri, error }
+      );
+    }
+  }
+
   async didOpen(uri: string, content: string, version: number): Promise<void> {
     if (!this.connection || !this.initialized) {
       throw new TypeScriptServerError(
@@ -433,7 +773,7 @@ export class TypeScriptServer {
         {
           textDocument: {
             uri: normalizedUri,
-            languageId: 'typescript',
+            languageId: this.getLanguageId(normalizedUri),
             version,
             text: content,
           },
@@ -441,6 +781,15 @@ export class TypeScriptServer {
       );
 
       this.documentVersions.set(normalizedUri, version);
+      this.documentTexts.set(
+        normalizedUri,
+        TextDocument.create(
+          normalizedUri,
+          this.getLanguageId(normalizedUri),
+          version,
+          content
+        )
+      );
       this.logger.debug('Document opened', { uri: normalizedUri, version });
     } catch (error) {
       this.logger.error('Failed to open document', error as Error);
@@ -461,6 +810,12 @@ export class TypeScriptServer {
     }
 
     const normalizedUri = this.normalizeUri(uri);
+    // Full-content syncs advance the server's version independently of the
+    // session's, and typescript-language-server caches responses per version
+    const serverVersion = Math.max(
+      version,
+      (this.documentVersions.get(normalizedUri) ?? 0) + 1
+    );
 
     try {
       await this.connection.sendNotification(
@@ -468,7 +823,7 @@ export class TypeScriptServer {
         {
           textDocument: {
             uri: normalizedUri,
-            version,
+            version: serverVersion,
           },
           contentChanges: changes.map((change) => ({
             range: change.range,
@@ -477,10 +832,11 @@ export class TypeScriptServer {
         }
       );
 
-      this.documentVersions.set(normalizedUri, version);
+      this.documentVersions.set(normalizedUri, serverVersion);
+      this.updateDocumentText(normalizedUri, changes, serverVersion);
       this.logger.debug('Document changed', {
         uri: normalizedUri,
-        version,
+        version: serverVersion,
         changes,
       });
     } catch (error) {
@@ -508,6 +864,8 @@ export class TypeScriptServer {
       );
 
       this.documentVersions.delete(normalizedUri);
+      this.documentTexts.delete(normalizedUri);
+      this.publishedDiagnostics.delete(normalizedUri);
       this.diagnosticHandlers.delete(normalizedUri);
       this.logger.debug('Document closed', { uri: normalizedUri });
     } catch (error) {
@@ -516,6 +874,74 @@ export class TypeScriptServer {
     }
   }
 
+  /**
+   * Makes the server's copy of a document match the given content, opening
+   * it if needed
+   */
+  async syncDocument(uri: string, content: string): Promise<void> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    const normalizedUri = this.normalizeUri(uri);
+    const version = this.documentVersions.get(normalizedUri);
+
+    if (version === undefined) {
+      await this.didOpen(normalizedUri, content, 1);
+      return;
+    }
+
+    await this.connection.sendNotification(
+      DidChangeTextDocumentNotification.type,
+      {
+        textDocument: {
+          uri: normalizedUri,
+          version: version + 1,
+        },
+        contentChanges: [{ text: content }],
+      }
+    );
+
+    this.documentVersions.set(normalizedUri, version + 1);
+    this.documentTexts.set(
+      normalizedUri,
+      TextDocument.create(
+        normalizedUri,
+        this.getLanguageId(normalizedUri),
+        version + 1,
+        content
+      )
+    );
+  }
+
+  /**
+   * Applies incremental changes to the tracked text of an open document.
+   * Like the server, each change applies to the result of the previous one.
+   */
+  private updateDocumentText(
+    uri: string,
+    changes: TextEdit[],
+    version: number
+  ): void {
+    const document = this.documentTexts.get(uri);
+    if (document) {
+      this.documentTexts.set(
+        uri,
+        TextDocument.update(
+          document,
+          changes.map((change) => ({
+            range: change.range,
+            text: change.newText,
+          })),
+          version
+        )
+      );
+    }
+  }
+
   private get debugInfo() {
     return {
       initialized: this.initialized,
@@ -550,6 +976,20 @@ export class TypeScriptServer {
     return new Promise<Diagnostic[]>(async (resolve, reject) => {
       try {
         let resolvedDiagnostics = false;
+        let settleTimer: NodeJS.Timeout | undefined;
+
+        const removeHandler = () => {
+          const currentHandlers = this.diagnosticHandlers.get(normalizedUri);
+          if (currentHandlers) {
+            const index = currentHandlers.indexOf(diagnosticCallback);
+            if (index > -1) {
+              currentHandlers.splice(index, 1);
+            }
+            if (currentHandlers.length === 0) {
+              this.diagnosticHandlers.delete(normalizedUri);
+            }
+          }
+        };
 
         const diagnosticCallback = (params: {
           uri: string;
@@ -579,15 +1019,22 @@ export class TypeScriptServer {
               });
             }
 
-            // Only log diagnostic count, not full diagnostics
-            this.logger.debug('Received diagnostics', {
-              uri: normalizedUri,
-              diagnosticsCount: filteredDiagnostics.length,
-              errorCount: filteredDiagnostics.filter((d) => d.severity === 1)
-                .length,
-            });
+            // Syntax and semantic diagnostics are published separately, so
+            // wait for the notifications to settle before resolving
+            clearTimeout(settleTimer);
+            settleTimer = setTimeout(() => {
+              removeHandler();
+
+              // Only log diagnostic count, not full diagnostics
+              this.logger.debug('Received diagnostics', {
+                uri: normalizedUri,
+                diagnosticsCount: filteredDiagnostics.length,
+                errorCount: filteredDiagnostics.filter((d) => d.severity === 1)
+                  .length,
+              });
 
-            resolve(filteredDiagnostics);
+              resolve(filteredDiagnostics);
+            }, DIAGNOSTICS_SETTLE_MS);
           }
         };
 
@@ -596,6 +1043,10 @@ export class TypeScriptServer {
         handlers.push(diagnosticCallback);
         this.diagnosticHandlers.set(normalizedUri, handlers);
 
+        const timeout = this.publishedDiagnostics.has(normalizedUri)
+          ? VALIDATION_TIMEOUT_MS
+          : INITIAL_VALIDATION_TIMEOUT_MS;
+
         // Ensure document is opened
         const version = this.documentVersions.get(normalizedUri) || 1;
         await this.didOpen(normalizedUri, content, version);
@@ -624,6 +1075,15 @@ export class TypeScriptServer {
         // Set timeout
         setTimeout(() => {
           if (!resolvedDiagnostics) {
+            removeHandler();
+
+            // The server doesn't publish again when a document without
+            // diagnostics stays clean
+            if (this.publishedDiagnostics.get(normalizedUri)?.length === 0) {
+              resolve([]);
+              return;
+            }
+
             this.logger.error('Validation timeout', {
               uri: normalizedUri,
               serverInfo: {
@@ -633,20 +1093,8 @@ export class TypeScriptServer {
               },
             });
             reject(new Error('Validation timeout'));
-
-            // Clean up handler
-            const currentHandlers = this.diagnosticHandlers.get(normalizedUri);
-            if (currentHandlers) {
-              const index = currentHandlers.indexOf(diagnosticCallback);
-              if (index > -1) {
-                currentHandlers.splice(index, 1);
-              }
-              if (currentHandlers.length === 0) {
-                this.diagnosticHandlers.delete(normalizedUri);
-              }
-            }
           }
-        }, 3000);
+        }, timeout);
       } catch (error) {
         this.logger.error('Validation error', error as Error);
         reject(error);
@@ -657,7 +1105,10 @@ export class TypeScriptServer {
   /**
    * Formats a document
    */
-  async formatDocument(uri: string): Promise<TextEdit[]> {
+  async formatDocument(
+    uri: string,
+    options: LanguageFormatOptions
+  ): Promise<TextEdit[]> {
     if (!this.connection || !this.initialized) {
       throw new TypeScriptServerError(
         'Server not initialized',
@@ -669,11 +1120,8 @@ export class TypeScriptServer {
       const result = await this.connection.sendRequest(
         DocumentFormattingRequest.type,
         {
-          textDocument: { uri },
-          options: {
-            tabSize: 2,
-            insertSpaces: true,
-          },
+          textDocument: { uri: this.normalizeUri(uri) },
+          options: { ...options },
         }
       );
 
@@ -688,6 +1136,45 @@ export class TypeScriptServer {
     }
   }
 
+  /**
+   * Formats a range of a document
+   */
+  async formatRange(
+    uri: string,
+    range: Range,
+    options: LanguageFormatOptions
+  ): Promise<TextEdit[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      const result = await this.connection.sendRequest(
+        DocumentRangeFormattingRequest.type,
+        {
+          textDocument: { uri: this.normalizeUri(uri) },
+          range,
+          options: { ...options },
+        }
+      );
+
+      return Array.isArray(result) ? result : [];
+    } catch (error) {
+      this.logger.error('Failed to format range', error as Error, {
+        uri,
+        range,
+      });
+      throw new TypeScriptServerError(
+        'Failed to format range',
+        'FORMAT_FAILED',
+        { uri, range, error }
+      );
+    }
+  }
+
   async getDefinition(
     uri: string,
     position: Position
@@ -701,7 +1188,7 @@ export class TypeScriptServer {
 
     try {
       const result = await this.connection.sendRequest(DefinitionRequest.type, {
-        textDocument: { uri },
+        textDocument: { uri: this.normalizeUri(uri) },
         position,
       });
 
@@ -725,6 +1212,587 @@ export class TypeScriptServer {
     }
   }
 
+  /**
+   * Finds references to the symbol at a position
+   */
+  async getReferences(
+    uri: string,
+    position: Position,
+    includeDeclaration: boolean
+  ): Promise<Location[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      const result = await this.connection.sendRequest(ReferencesRequest.type, {
+        textDocument: { uri: this.normalizeUri(uri) },
+        position,
+        context: { includeDeclaration },
+      });
+
+      return result ?? [];
+    } catch (error) {
+      this.logger.error('Failed to get references', error as Error, {
+        uri,
+        position,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get references',
+        'GET_REFERENCES_FAILED',
+        { uri, position, error }
+      );
+    }
+  }
+
+  /**
+   * Gets hover information for a position
+   */
+  async getHover(uri: string, position: Position): Promise<Hover | null> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      return await this.connection.sendRequest(HoverRequest.type, {
+        textDocument: { uri: this.normalizeUri(uri) },
+        position,
+      });
+    } catch (error) {
+      this.logger.error('Failed to get hover', error as Error, {
+        uri,
+        position,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get hover',
+        'GET_HOVER_FAILED',
+        { uri, position, error }
+      );
+    }
+  }
+
+  /**
+   * Gets the signatures of the call at a position
+   */
+  async getSignatureHelp(
+    uri: string,
+    position: Position
+  ): Promise<SignatureHelp | null> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      return await this.connection.sendRequest(SignatureHelpRequest.type, {
+        textDocument: { uri: this.normalizeUri(uri) },
+        position,
+      });
+    } catch (error) {
+      this.logger.error('Failed to get signature help', error as Error, {
+        uri,
+        position,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get signature help',
+        'SIGNATURE_HELP_FAILED',
+        { uri, position, error }
+      );
+    }
+  }
+
+  /**
+   * Gets the inferred types and parameter names the server would show in a
+   * range. Which hints are given is set by the inlay hint preferences.
+   */
+  async getInlayHints(uri: string, range: Range): Promise<InlayHint[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      const hints = await this.connection.sendRequest(InlayHintRequest.type, {
+        textDocument: { uri: this.normalizeUri(uri) },
+        range,
+      });
+      return hints ?? [];
+    } catch (error) {
+      this.logger.error('Failed to get inlay hints', error as Error, {
+        uri,
+        range,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get inlay hints',
+        'INLAY_HINTS_FAILED',
+        { uri, range, error }
+      );
+    }
+  }
+
+  /**
+   * Gets the call hierarchy items for the function or method at a position
+   */
+  async prepareCallHierarchy(
+    uri: string,
+    position: Position
+  ): Promise<CallHierarchyItem[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      const items = await this.connection.sendRequest(
+        CallHierarchyPrepareRequest.type,
+        {
+          textDocument: { uri: this.normalizeUri(uri) },
+          position,
+        }
+      );
+      return items ?? [];
+    } catch (error) {
+      this.logger.error('Failed to prepare call hierarchy', error as Error, {
+        uri,
+        position,
+      });
+      throw new TypeScriptServerError(
+        'Failed to prepare call hierarchy',
+        'CALL_HIERARCHY_FAILED',
+        { uri, position, error }
+      );
+    }
+  }
+
+  /**
+   * Gets the calls made to a call hierarchy item
+   */
+  async getIncomingCalls(
+    item: CallHierarchyItem
+  ): Promise<CallHierarchyIncomingCall[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      const calls = await this.connection.sendRequest(
+        CallHierarchyIncomingCallsRequest.type,
+        { item }
+      );
+      return calls ?? [];
+    } catch (error) {
+      this.logger.error('Failed to get incoming calls', error as Error, {
+        item: item.name,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get incoming calls',
+        'CALL_HIERARCHY_FAILED',
+        { item, error }
+      );
+    }
+  }
+
+  /**
+   * Gets the calls made from a call hierarchy item
+   */
+  async getOutgoingCalls(
+    item: CallHierarchyItem
+  ): Promise<CallHierarchyOutgoingCall[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      const calls = await this.connection.sendRequest(
+        CallHierarchyOutgoingCallsRequest.type,
+        { item }
+      );
+      return calls ?? [];
+    } catch (error) {
+      this.logger.error('Failed to get outgoing calls', error as Error, {
+        item: item.name,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get outgoing calls',
+        'CALL_HIERARCHY_FAILED',
+        { item, error }
+      );
+    }
+  }
+
+  /**
+   * Gets the type hierarchy items for the class or interface declared at a
+   * position, or the ones a type name there refers to. The server has no
+   * type hierarchy support, so the items come from document symbols.
+   */
+  async prepareTypeHierarchy(
+    uri: string,
+    position: Position
+  ): Promise<TypeHierarchyItem[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      const declared = await this.findTypeItem(uri, position);
+      if (declared) {
+        return [declared];
+      }
+
+      const definitions = await this.withOpenDocument(uri, () =>
+        this.getDefinition(uri, position)
+      );
+      return await this.findTypeItems(
+        definitions.map((definition) =>
+          'targetUri' in definition
+            ? { uri: definition.targetUri, range: definition.targetRange }
+            : definition
+        )
+      );
+    } catch (error) {
+      this.logger.error('Failed to prepare type hierarchy', error as Error, {
+        uri,
+        position,
+      });
+      throw new TypeScriptServerError(
+        'Failed to prepare type hierarchy',
+        'TYPE_HIERARCHY_FAILED',
+        { uri, position, error }
+      );
+    }
+  }
+
+  /**
+   * Gets the types a class or interface extends or implements, by looking
+   * up the definitions of the names in its declaration's heritage clauses
+   */
+  async getSupertypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      const document = await this.getDocumentText(item.uri);
+      const names = findHeritageNames(
+        document.getText(),
+        document.offsetAt(item.selectionRange.end)
+      );
+
+      const definitions = await this.withOpenDocument(item.uri, async () => {
+        const locations: Location[] = [];
+        for (const { offset } of names) {
+          const found = await this.getDefinition(
+            item.uri,
+            document.positionAt(offset)
+          );
+          locations.push(
+            ...found.map((definition) =>
+              'targetUri' in definition
+                ? { uri: definition.targetUri, range: definition.targetRange }
+                : definition
+            )
+          );
+        }
+        return locations;
+      });
+
+      return await this.findTypeItems(definitions);
+    } catch (error) {
+      this.logger.error('Failed to get supertypes', error as Error, {
+        item: item.name,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get supertypes',
+        'TYPE_HIERARCHY_FAILED',
+        { item, error }
+      );
+    }
+  }
+
+  /**
+   * Gets the classes and interfaces that directly extend or implement a
+   * class or interface, from the implementations the server finds for its
+   * name
+   */
+  async getSubtypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    const connection = this.connection;
+    const uri = this.normalizeUri(item.uri);
+
+    try {
+      const implementations = await this.withOpenDocument(uri, () =>
+        connection.sendRequest(ImplementationRequest.type, {
+          textDocument: { uri },
+          position: item.selectionRange.start,
+        })
+      );
+
+      const locations = (
+        Array.isArray(implementations)
+          ? implementations
+          : implementations
+            ? [implementations]
+            : []
+      ).map((implementation) =>
+        'targetUri' in implementation
+          ? {
+              uri: implementation.targetUri,
+              range: implementation.targetSelectionRange,
+            }
+          : implementation
+      );
+
+      const isItem = (type: TypeHierarchyItem) =>
+        type.uri === uri &&
+        type.selectionRange.start.line === item.selectionRange.start.line &&
+        type.selectionRange.start.character ===
+          item.selectionRange.start.character;
+
+      // Implementations include indirect subtypes, so keep only the types
+      // that list the item among their own supertypes
+      const subtypes: TypeHierarchyItem[] = [];
+      for (const type of await this.findTypeItems(locations)) {
+        if (isItem(type)) {
+          continue;
+        }
+        const supertypes = await this.getSupertypes(type);
+        if (supertypes.some(isItem)) {
+          subtypes.push(type);
+        }
+      }
+
+      return subtypes;
+    } catch (error) {
+      this.logger.error('Failed to get subtypes', error as Error, {
+        item: item.name,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get subtypes',
+        'TYPE_HIERARCHY_FAILED',
+        { item, error }
+      );
+    }
+  }
+
+  /**
+   * Gets the type hierarchy items of the classes and interfaces at some
+   * locations, once each
+   */
+  private async findTypeItems(
+    locations: Location[]
+  ): Promise<TypeHierarchyItem[]> {
+    const items = new Map<string, TypeHierarchyItem>();
+
+    for (const location of locations) {
+      const item = await this.findTypeItem(location.uri, location.range.start);
+      if (!item) {
+        continue;
+      }
+
+      const { line, character } = item.selectionRange.start;
+      const key = `${item.uri}:${line}:${character}`;
+      if (!items.has(key)) {
+        items.set(key, item);
+      }
+    }
+
+    return Array.from(items.values());
+  }
+
+  /**
+   * Finds the class or interface whose declaration starts or is named at a
+   * position
+   */
+  private async findTypeItem(
+    uri: string,
+    position: Position
+  ): Promise<TypeHierarchyItem | undefined> {
+    const normalizedUri = this.normalizeUri(uri);
+    const symbols = await this.withOpenDocument(normalizedUri, () =>
+      this.getDocumentSymbols(normalizedUri)
+    );
+
+    const contains = (range: Range) =>
+      (position.line > range.start.line ||
+        (position.line === range.start.line &&
+          position.character >= range.start.character)) &&
+      (position.line < range.end.line ||
+        (position.line === range.end.line &&
+          position.character <= range.end.character));
+
+    const find = (candidates: DocumentSymbol[]): DocumentSymbol | undefined => {
+      for (const symbol of candidates) {
+        if (
+          contains(symbol.selectionRange) ||
+          (TYPE_KINDS.includes(symbol.kind) &&
+            symbol.range.start.line === position.line &&
+            symbol.range.start.character === position.character)
+        ) {
+          return symbol;
+        }
+        if (contains(symbol.range)) {
+          return find(symbol.children ?? []);
+        }
+      }
+      return undefined;
+    };
+
+    const symbol = find(symbols);
+    if (!symbol || !TYPE_KINDS.includes(symbol.kind)) {
+      return undefined;
+    }
+
+    return {
+      name: symbol.name,
+      kind: symbol.kind,
+      detail: symbol.detail,
+      uri: normalizedUri,
+      range: symbol.range,
+      selectionRange: symbol.selectionRange,
+    };
+  }
+
+  /**
+   * Gets the text of a document: the server's copy if it is open, otherwise
+   * the file on disk
+   */
+  private async getDocumentText(uri: string): Promise<TextDocument> {
+    const normalizedUri = this.normalizeUri(uri);
+    return (
+      this.documentTexts.get(normalizedUri) ??
+      TextDocument.create(
+        normalizedUri,
+        this.getLanguageId(normalizedUri),
+        0,
+        await readFile(URI.parse(normalizedUri).fsPath, 'utf-8')
+      )
+    );
+  }
+
+  /**
+   * Runs requests that need a document open, opening it from disk for their
+   * duration if it isn't
+   */
+  private async withOpenDocument<T>(
+    uri: string,
+    request: () => Promise<T>
+  ): Promise<T> {
+    const normalizedUri = this.normalizeUri(uri);
+    if (this.documentVersions.has(normalizedUri)) {
+      return request();
+    }
+
+    const document = await this.getDocumentText(normalizedUri);
+    await this.didOpen(normalizedUri, document.getText(), 1);
+    try {
+      return await request();
+    } finally {
+      await this.didClose(normalizedUri);
+    }
+  }
+
+  /**
+   * Gets the hierarchical symbols of a document
+   */
+  async getDocumentSymbols(uri: string): Promise<DocumentSymbol[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    const normalizedUri = this.normalizeUri(uri);
+
+    try {
+      const result = await this.connection.sendRequest(
+        DocumentSymbolRequest.type,
+        {
+          textDocument: { uri: normalizedUri },
+        }
+      );
+
+      return toDocumentSymbols(result);
+    } catch (error) {
+      this.logger.error('Failed to get document symbols', error as Error, {
+        uri,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get document symbols',
+        'DOCUMENT_SYMBOLS_FAILED',
+        { uri, error }
+      );
+    }
+  }
+
+  /**
+   * Checks whether any document is open. The server only searches for
+   * workspace symbols in the projects of open documents.
+   */
+  hasOpenDocuments(): boolean {
+    return this.documentVersions.size > 0;
+  }
+
+  /**
+   * Searches the symbols of the open documents' projects by name
+   */
+  async getWorkspaceSymbols(query: string): Promise<SymbolInformation[]> {
+    if (!this.connection || !this.initialized) {
+      throw new TypeScriptServerError(
+        'Server not initialized',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    try {
+      const result = await this.connection.sendRequest(
+        WorkspaceSymbolRequest.type,
+        { query }
+      );
+
+      return toSymbolInformation(result);
+    } catch (error) {
+      this.logger.error('Failed to get workspace symbols', error as Error, {
+        query,
+      });
+      throw new TypeScriptServerError(
+        'Failed to get workspace symbols',
+        'WORKSPACE_SYMBOLS_FAILED',
+        { query, error }
+      );
+    }
+  }
+
   /**
    * Shuts down the language server
    */
@@ -738,6 +1806,7 @@ export class TypeScriptServer {
       this.serverProcess.kill();
       this.initialized = false;
       this.documentVersions.clear();
+      this.publishedDiagnostics.clear();
 
       this.logger.info('TypeScript server shut down');
     } catch (error) {
@@ -0,0 +1,475 @@
+// src/services/languages/typescriptEdits.ts
+import { Position, Range, TextEdit } from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CodeTarget, ImportSpec, PropSpec } from '../../types/editor.js';
+import { EditError } from '../../types/errors.js';
+import {
+  getImportedNames,
+  getLocalName,
+  ImportDeclarationInfo,
+  parseImports,
+} from '../../utils/imports.js';
+import { Logger } from '../../utils/logger.js';
+import { TargetResolver } from '../TargetResolver.js';
+
+/**
+ * Hooks exported by React, imported automatically by addHook
+ */
+const REACT_HOOKS = new Set([
+  'useActionState',
+  'useCallback',
+  'useContext',
+  'useDebugValue',
+  'useDeferredValue',
+  'useEffect',
+  'useId',
+  'useImperativeHandle',
+  'useInsertionEffect',
+  'useLayoutEffect',
+  'useMemo',
+  'useOptimistic',
+  'useReducer',
+  'useRef',
+  'useState',
+  'useSyncExternalStore',
+  'useTransition',
+]);
+
+const DEFAULT_INDENT = '  ';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the text edits for structural operations on TypeScript,
+ * JavaScript and their JSX variants
+ */
+export class TypeScriptEditBuilder {
+  constructor(
+    private readonly targetResolver: TargetResolver,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Adds an import, merging it into an existing declaration from the same
+   * module. Bindings that are already imported are skipped.
+   */
+  buildAddImport(document: TextDocument, spec: ImportSpec): TextEdit[] {
+    const text = document.getText();
+    const imports = parseImports(text);
+    const sameModule = imports.filter(
+      (info) =>
+        info.moduleSpecifier === spec.module &&
+        info.typeOnly === !!spec.typeOnly
+    );
+    const imported = new Set(sameModule.flatMap(getImportedNames));
+
+    const missingDefault =
+      spec.default && !imported.has(spec.default) ? spec.default : undefined;
+    const missingNamespace =
+      spec.namespace && !imported.has(spec.namespace)
+        ? spec.namespace
+        : undefined;
+    const missingNamed = (spec.named ?? []).filter(
+      (name) => !imported.has(getLocalName(name))
+    );
+
+    if (!missingDefault && !missingNamespace && missingNamed.length === 0) {
+      this.logger.debug('Import already present', { spec });
+      return [];
+    }
+
+    // Named and default imports can join a declaration without a namespace
+    const mergeTarget = missingNamespace
+      ? undefined
+      : sameModule.find(
+          (info) =>
+            !info.namespaceImport && !(missingDefault && info.defaultImport)
+        );
+
+    if (mergeTarget) {
+      const statement = this.formatImport(
+        {
+          module: spec.module,
+          typeOnly: spec.typeOnly,
+          default: mergeTarget.defaultImport ?? missingDefault,
+          named: [...(mergeTarget.namedImports ?? []), ...missingNamed],
+        },
+        mergeTarget,
+        mergeTarget.multiline
+      );
+
+      return [
+        {
+          range: Range.create(
+            document.positionAt(mergeTarget.start),
+            document.positionAt(mergeTarget.end)
+          ),
+          newText: statement,
+        },
+      ];
+    }
+
+    const statement = this.formatImport(
+      {
+        module: spec.module,
+        typeOnly: spec.typeOnly,
+        default: missingDefault,
+        namespace: missingNamespace,
+        named: missingNamespace ? undefined : missingNamed,
+      },
+      imports[0]
+    );
+    const edits = [this.insertImport(document, imports, statement)];
+
+    // A namespace import cannot share a declaration with named imports
+    if (missingNamespace && missingNamed.length > 0) {
+      edits.push(
+        this.insertImport(
+          document,
+          imports,
+          this.formatImport(
+            {
+              module: spec.module,
+              typeOnly: spec.typeOnly,
+              named: missingNamed,
+            },
+            imports[0]
+          )
+        )
+      );
+    }
+
+    return edits;
+  }
+
+  /**
+   * Adds a prop to a component's props interface and, when the component
+   * destructures its props, to the destructuring pattern
+   * @param target The component, or the props interface itself
+   */
+  async buildAddProp(
+    document: TextDocument,
+    target: CodeTarget,
+    prop: PropSpec
+  ): Promise<TextEdit[]> {
+    if (target.type === 'interface') {
+      const interfaceRange = await this.targetResolver.resolveTarget(
+        document,
+        target
+      );
+      return this.addInterfaceMember(document, interfaceRange, prop);
+    }
+
+    const componentRange = await this.targetResolver.resolveTarget(document, {
+      ...target,
+      properties: { ...target.properties, part: 'declaration' },
+    });
+    const interfaceName =
+      this.findPropsTypeName(document.getText(componentRange)) ??
+      `${target.name}Props`;
+    const interfaceRange = await this.targetResolver.resolveTarget(document, {
+      type: 'interface',
+      name: interfaceName,
+    });
+
+    return [
+      ...this.addInterfaceMember(document, interfaceRange, prop),
+      ...this.addDestructuredProp(document, componentRange, prop),
+    ];
+  }
+
+  /**
+   * Inserts a hook call at the start of a component's body, importing
+   * React hooks that are not imported yet
+   * @param importSpec Import for the hook; inferred for React hooks if omitted
+   */
+  async buildAddHook(
+    document: TextDocument,
+    target: CodeTarget,
+    statement: string,
+    importSpec?: ImportSpec
+  ): Promise<TextEdit[]> {
+    const body = await this.targetResolver.resolveTarget(document, {
+      ...target,
+      properties: { ...target.properties, part: 'body' },
+    });
+    const bodyStart = document.offsetAt(body.start);
+    const bodyText = document.getText(body);
+    const lineBreak = bodyText.indexOf('\n');
+
+    let edit: TextEdit;
+    if (lineBreak === -1) {
+      // Single-line body, e.g. `{ return null; }`
+      edit = {
+        range: Range.create(body.start, body.start),
+        newText: ` ${statement}`,
+      };
+    } else {
+      const firstLine = bodyText
+        .slice(lineBreak + 1)
+        .split('\n')
+        .find((line) => line.trim());
+      const indent =
+        firstLine?.match(/^\s*/)?.[0] ??
+        this.getLineIndent(document, body.start.line) + DEFAULT_INDENT;
+      const position = document.positionAt(bodyStart + lineBreak + 1);
+
+      edit = {
+        range: Range.create(position, position),
+        newText: this.indentLines(statement, indent) + '\n',
+      };
+    }
+
+    const hookImport = importSpec ?? this.inferHookImport(statement);
+    return [
+      edit,
+      ...(hookImport ? this.buildAddImport(document, hookImport) : []),
+    ];
+  }
+
+  /**
+   * Adds a member before the closing brace of an interface
+   */
+  private addInterfaceMember(
+    document: TextDocument,
+    range: Range,
+    prop: PropSpec
+  ): TextEdit[] {
+    const text = document.getText(range);
+    const start = document.offsetAt(range.start);
+    const close = text.lastIndexOf('}');
+    const open = text.indexOf('{');
+    const member = `${prop.name}${prop.optional ? '?' : ''}: ${prop.type};`;
+
+    if (open === -1 || close === -1) {
+      throw new EditError(
+        'Could not find the body of the props interface',
+        'TARGET_NOT_FOUND',
+        { range }
+      );
+    }
+
+    const memberPattern = new RegExp(
+      `^\\s*${escapeRegExp(prop.name)}\\??\\s*:`,
+      'm'
+    );
+    if (memberPattern.test(text.slice(open + 1, close))) {
+      this.logger.debug('Prop already declared', { prop: prop.name });
+      return [];
+    }
+
+    const beforeClose = text.slice(0, close);
+    const lineStart = beforeClose.lastIndexOf('\n') + 1;
+
+    // Closing brace on its own line: add a new line above it
+    if (lineStart > open && !beforeClose.slice(lineStart).trim()) {
+      const previousLine = beforeClose
+        .slice(open + 1, lineStart)
+        .split('\n')
+        .reverse()
+        .find((line) => line.trim());
+      const indent =
+        previousLine?.match(/^\s*/)?.[0] ??
+        this.getLineIndent(document, range.start.line) + DEFAULT_INDENT;
+      const position = document.positionAt(start + lineStart);
+
+      return [
+        {
+          range: Range.create(position, position),
+          newText: `${indent}${member}\n`,
+        },
+      ];
+    }
+
+    // Single-line body, e.g. `{ label: string }`
+    const contentEnd = beforeClose.trimEnd().length;
+    const separator = /[{;,]$/.test(beforeClose.trimEnd()) ? '' : ';';
+    return [
+      {
+        range: Range.create(
+          document.positionAt(start + contentEnd),
+          document.positionAt(start + close)
+        ),
+        newText: `${separator} ${member} `,
+      },
+    ];
+  }
+
+  /**
+   * Adds a prop to the component's destructured parameter, if it has one
+   */
+  private addDestructuredProp(
+    document: TextDocument,
+    componentRange: Range,
+    prop: PropSpec
+  ): TextEdit[] {
+    const text = document.getText(componentRange);
+    const start = document.offsetAt(componentRange.start);
+    const paramsStart = text.indexOf('(');
+    const open = text.slice(paramsStart + 1).search(/\S/) + paramsStart + 1;
+
+    if (paramsStart === -1 || text[open] !== '{') {
+      return [];
+    }
+
+    const close = this.findClosingBrace(text, open);
+    if (close === -1) {
+      return [];
+    }
+
+    const pattern = text.slice(open + 1, close);
+    // Identifiers may contain `$`, which \b does not treat as a word character
+    if (
+      new RegExp(`(^|[\\s,])${escapeRegExp(prop.name)}(?![\\w$])`).test(pattern)
+    ) {
+      return [];
+    }
+
+    const entry = prop.defaultValue
+      ? `${prop.name} = ${prop.defaultValue}`
+      : prop.name;
+    const contentEnd = open + 1 + pattern.trimEnd().length;
+    const position = document.positionAt(start + contentEnd);
+    const lastChar = pattern.trimEnd().slice(-1);
+
+    let newText: string;
+    if (!pattern.trim()) {
+      newText = ` ${entry} `;
+    } else if (pattern.includes('\n')) {
+      const lastLine = pattern
+        .split('\n')
+        .reverse()
+        .find((line) => line.trim());
+      const indent = lastLine?.match(/^\s*/)?.[0] ?? DEFAULT_INDENT;
+      newText =
+        lastChar === ',' ? `\n${indent}${entry},` : `,\n${indent}${entry}`;
+    } else {
+      newText = lastChar === ',' ? ` ${entry}` : `, ${entry}`;
+    }
+
+    return [{ range: Range.create(position, position), newText }];
+  }
+
+  /**
+   * Finds the props type named in a component declaration, e.g.
+   * `React.FC<ButtonProps>` or `({ label }: ButtonProps)`
+   */
+  private findPropsTypeName(declaration: string): string | undefined {
+    const match =
+      declaration.match(/\bF(?:unction)?C(?:omponent)?\s*<\s*([\w$]+)/) ??
+      declaration.match(/\(\s*(?:\{[^}]*\}|[\w$]+)\s*:\s*([\w$]+)/);
+    return match?.[1];
+  }
+
+  private inferHookImport(statement: string): ImportSpec | undefined {
+    const hook = statement.match(/(?<![\w$.])(use[A-Z][\w$]*)\s*[<(]/)?.[1];
+    return hook && REACT_HOOKS.has(hook)
+      ? { module: 'react', named: [hook] }
+      : undefined;
+  }
+
+  /**
+   * Inserts an import after the last existing import, or at the top of the
+   * file below leading comments and directives
+   */
+  private insertImport(
+    document: TextDocument,
+    imports: ImportDeclarationInfo[],
+    statement: string
+  ): TextEdit {
+    if (imports.length > 0) {
+      const position = document.positionAt(imports[imports.length - 1].end);
+      return {
+        range: Range.create(position, position),
+        newText: `\n${statement}`,
+      };
+    }
+
+    const lines = document.getText().split('\n');
+    let line = 0;
+    let inComment = false;
+    for (; line < lines.length; line++) {
+      const trimmed = lines[line].trim();
+      if (inComment) {
+        inComment = !trimmed.includes('*/');
+        continue;
+      }
+      if (trimmed.startsWith('/*')) {
+        inComment = !trimmed.includes('*/');
+        continue;
+      }
+      if (
+        !trimmed.startsWith('//') &&
+        !trimmed.startsWith('#!') &&
+        !/^(['"])use [\w ]+\1;?$/.test(trimmed)
+      ) {
+        break;
+      }
+    }
+
+    const position = Position.create(line, 0);
+    return {
+      range: Range.create(position, position),
+      newText: `${statement}\n`,
+    };
+  }
+
+  /**
+   * Formats an import declaration, following the quote and semicolon style
+   * of an existing import when there is one
+   */
+  private formatImport(
+    spec: ImportSpec,
+    style?: ImportDeclarationInfo,
+    multiline = false
+  ): string {
+    const quote = style?.quote ?? "'";
+    const semicolon = (style?.hasSemicolon ?? true) ? ';' : '';
+    const bindings: string[] = [];
+
+    if (spec.default) {
+      bindings.push(spec.default);
+    }
+    if (spec.namespace) {
+      bindings.push(`* as ${spec.namespace}`);
+    }
+    if (spec.named && spec.named.length > 0) {
+      bindings.push(
+        multiline
+          ? `{\n${spec.named.map((name) => `${DEFAULT_INDENT}${name},`).join('\n')}\n}`
+          : `{ ${spec.named.join(', ')} }`
+      );
+    }
+
+    return `import ${spec.typeOnly ? 'type ' : ''}${bindings.join(', ')} from ${quote}${spec.module}${quote}${semicolon}`;
+  }
+
+  private findClosingBrace(text: string, open: number): number {
+    let depth = 0;
+    for (let offset = open; offset < text.length; offset++) {
+      if (text[offset] === '{') {
+        depth++;
+      } else if (text[offset] === '}' && --depth === 0) {
+        return offset;
+      }
+    }
+    return -1;
+  }
+
+  private getLineIndent(document: TextDocument, line: number): string {
+    return (
+      document
+        .getText(Range.create(line, 0, line + 1, 0))
+        .match(/^[ \t]*/)?.[0] ?? ''
+    );
+  }
+
+  private indentLines(text: string, indent: string): string {
+    return text
+      .split('\n')
+      .map((line) => (line.trim() ? indent + line : line))
+      .join('\n');
+  }
+}
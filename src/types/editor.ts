@@ -7,6 +7,7 @@ import {
   TextEdit,
 } from 'vscode-languageserver-protocol';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { LanguageFormatOptions, SkippedFormatConfig } from './language.js';
 
 /**
  * Describes the target location for an edit operation
@@ -21,7 +22,10 @@ export interface CodeTarget {
   /** Specific range in the document */
   range?: Range;
 
-  /** Additional target properties */
+  /**
+   * Additional target properties: `part` ('declaration', 'body' or 'name')
+   * and a 1-based `occurrence` when several elements match
+   */
   properties?: Record<string, unknown>;
 }
 
@@ -51,10 +55,82 @@ export interface EditOperation {
   position?: Position;
   range?: Range;
 
+  /** Existing text to target instead of a range */
+  anchor?: TextAnchor;
+
+  /** Code element to target instead of a range */
+  target?: CodeTarget;
+
+  /** Text placed around the target of a wrap operation */
+  wrapper?: WrapSpec;
+
+  /** Import to add for addImport (and optionally addHook) operations */
+  importSpec?: ImportSpec;
+
+  /** Prop to add for addProp operations */
+  prop?: PropSpec;
+
   /** Format preservation options */
   format?: FormatOptions;
 }
 
+/**
+ * Locates existing text by content rather than by coordinates
+ */
+export interface TextAnchor {
+  /** Exact text to target */
+  text: string;
+
+  /** Text expected right before the target (surrounding whitespace ignored) */
+  before?: string;
+
+  /** Text expected right after the target (surrounding whitespace ignored) */
+  after?: string;
+
+  /** 1-based occurrence to pick when the text matches several locations */
+  occurrence?: number;
+}
+
+/**
+ * Text placed around the target of a wrap operation
+ */
+export interface WrapSpec {
+  before: string;
+  after: string;
+}
+
+/**
+ * Describes an import declaration to add or merge
+ */
+export interface ImportSpec {
+  /** Module specifier (e.g. 'react' or './Button') */
+  module: string;
+
+  /** Default import binding */
+  default?: string;
+
+  /** Namespace import binding (`* as name`) */
+  namespace?: string;
+
+  /** Named imports, optionally aliased (e.g. 'useState', 'a as b') */
+  named?: string[];
+
+  /** Whether to emit `import type` */
+  typeOnly?: boolean;
+}
+
+/**
+ * Describes a prop to add to a component's props interface
+ */
+export interface PropSpec {
+  name: string;
+  type: string;
+  optional?: boolean;
+
+  /** Default value, added to the component's destructured parameters */
+  defaultValue?: string;
+}
+
 /**
  * Valid edit operation types
  */
@@ -95,6 +171,15 @@ export interface EditResult {
   /** Applied changes */
   changes?: TextEdit[];
 
+  /** Whether the changes were only previewed, not applied */
+  dryRun?: boolean;
+
+  /** Unified diff of the changes */
+  diff?: string;
+
+  /** Diagnostics added or removed by the changes */
+  diagnosticDelta?: DiagnosticDelta;
+
   /** Error details if operation failed */
   error?: {
     message: string;
@@ -103,11 +188,188 @@ export interface EditResult {
   };
 }
 
+/**
+ * A batch of edit operations for one session, as part of an edit spanning
+ * several files
+ */
+export interface FileEditOperations {
+  sessionId: string;
+
+  /** Operations to apply; without any, the file is only validated */
+  operations: EditOperation[];
+
+  /** Version the operations were written against */
+  documentVersion?: number;
+}
+
+/**
+ * Result of applying edits to one file of a workspace edit
+ */
+export interface FileEditResult extends EditResult {
+  /** Path of the edited file */
+  filePath: string;
+
+  /** Session the file was edited in, if it has one */
+  sessionId?: string;
+
+  /** Whether the session was opened to apply the edit */
+  opened: boolean;
+}
+
+/**
+ * Result of applying a workspace edit, which may span several files
+ */
+export interface WorkspaceEditResult {
+  /** Whether every file was edited without new errors */
+  success: boolean;
+
+  /** Results for each edited file, in the order they were applied */
+  files: FileEditResult[];
+
+  /** Error details if the edit was rejected or rolled back */
+  error?: {
+    message: string;
+    code: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Result of creating, deleting or renaming a file
+ */
+export interface FileOperationResult {
+  /** Whether the operation was carried out without new errors */
+  success: boolean;
+
+  /** Session tracking the file; undoing it reverts the operation */
+  sessionId: string;
+
+  /** Path of the file after the operation */
+  filePath: string;
+
+  documentVersion: number;
+
+  /** Other files edited along with the operation, like importers of a renamed file */
+  files?: FileEditResult[];
+
+  /** Error details if the operation was rolled back */
+  error?: {
+    message: string;
+    code: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Selects the code actions to list for part of a document
+ */
+export interface CodeActionQuery {
+  /** Range to get actions for */
+  range?: Range;
+
+  /** Text to get actions for, instead of a range */
+  anchor?: TextAnchor;
+
+  /** Kinds of actions to list, e.g. quickfix or refactor.extract */
+  only?: string[];
+}
+
+/**
+ * A code action offered by the language server
+ */
+export interface CodeActionInfo {
+  /** Title of the action, used to apply it */
+  title: string;
+
+  /** Kind of action, e.g. quickfix */
+  kind?: string;
+
+  /** Whether the server recommends this action */
+  isPreferred?: boolean;
+
+  /** Why the action cannot be applied, if it is disabled */
+  disabled?: string;
+
+  /** Messages of the diagnostics the action fixes */
+  diagnostics?: string[];
+}
+
+/**
+ * Diagnostics that differ between two versions of a document
+ */
+export interface DiagnosticDelta {
+  /** Diagnostics only present after the change */
+  introduced: Diagnostic[];
+
+  /** Diagnostics only present before the change */
+  resolved: Diagnostic[];
+
+  /** Diagnostics present both before and after the change */
+  preExisting?: Diagnostic[];
+
+  /** Number of diagnostics present both before and after the change */
+  preExistingCount: number;
+}
+
+/**
+ * How much diagnostic detail an edit result reports
+ * - full: every diagnostic of the document, classified in the delta
+ * - delta: only diagnostics the change introduced or resolved
+ */
+export type DiagnosticsMode = 'full' | 'delta';
+
+/**
+ * Options for applying or previewing edit operations
+ */
+export interface ApplyEditOptions {
+  /** Version the operations were written against */
+  documentVersion?: number;
+
+  /** How to handle new errors, overriding the session's policy */
+  diagnosticPolicy?: DiagnosticPolicy;
+
+  /** How much diagnostic detail to report (default: full) */
+  diagnosticsMode?: DiagnosticsMode;
+}
+
+/**
+ * Options for formatting a document or a range of it
+ */
+export interface FormatDocumentOptions extends ApplyEditOptions {
+  /** Range to format (default: the whole document) */
+  range?: Range;
+
+  /** Overrides for the project's formatting options */
+  formatOptions?: Partial<LanguageFormatOptions>;
+
+  /** Preview the formatting without applying it */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of formatting a document or a range of it
+ */
+export interface FormatResult extends EditResult {
+  /** Options the server formatted with, after overrides */
+  formatOptions: LanguageFormatOptions;
+
+  /**
+   * Formatting configs that could not be read, so their settings were not
+   * applied
+   */
+  skippedConfigs?: SkippedFormatConfig[];
+}
+
 /**
  * Service for managing edit sessions
  */
 export interface SessionManager {
-  createSession(filePath: string, languageId: string): Promise<EditSession>;
+  createSession(
+    filePath: string,
+    languageId: string,
+    diagnosticPolicy?: DiagnosticPolicy,
+    organizeImportsOnSave?: boolean
+  ): Promise<EditSession>;
   getSession(sessionId: string): Promise<EditSession>;
   updateSession(
     sessionId: string,
@@ -131,15 +393,57 @@ export interface LanguageServerState {
 export interface EditOperationState {
   timestamp: number;
   changes: TextEdit[];
+  /** Text replaced by each change, in the same order as `changes` */
+  replacedText: string[];
+  /** Range each change occupies in the document after it was applied */
+  appliedRanges: Range[];
   documentVersion: number;
+  /** Set when the entry created, deleted or renamed the file itself */
+  fileOperation?: FileOperationState;
+}
+
+/**
+ * A change to a file itself rather than its text. Unlike text edits, which
+ * wait for a save, it is carried out on disk at once, and undoing or redoing
+ * its history entry does so again.
+ */
+export interface FileOperationState {
+  kind: 'create' | 'delete' | 'rename';
+  /** Path of the file, before it was renamed */
+  filePath: string;
+  /** Path the file was renamed to */
+  newPath?: string;
+  /** Content the file was created with, or had on disk when deleted */
+  content?: string;
+  /**
+   * Entries other sessions recorded along with the operation, like the
+   * imports a rename updated; they are undone and redone with it
+   */
+  linkedEdits?: HistoryEntryRef[];
+}
+
+/**
+ * Points to an entry in a session's edit history
+ */
+export interface HistoryEntryRef {
+  sessionId: string;
+  filePath: string;
+  /**
+   * The entry itself; indices shift as the history is trimmed or edited
+   * after an undo, so the entry is found by identity
+   */
+  operation: EditOperationState;
 }
 
-// Track validation state
+// Track validation state; the diagnostics are the baseline the next edit's
+// diagnostic delta is computed against
 export interface ValidationState {
   lastChecked: number;
   diagnostics: Diagnostic[];
   isValid: boolean;
   inProgress: boolean;
+  /** Document version the diagnostics belong to (0 if never validated) */
+  documentVersion: number;
 }
 
 // Enhanced edit history tracking
@@ -150,16 +454,128 @@ export interface EditHistory {
   canRedo: boolean;
 }
 
+// Track the file on disk as it was last read or written
+export interface DiskState {
+  mtimeMs: number;
+  hash: string;
+  content: string;
+}
+
 // Enhanced session state
 export interface SessionState {
   editHistory: EditHistory;
   validationState: ValidationState;
   languageServerState: LanguageServerState;
+  diskState: DiskState;
+  diagnosticPolicy: DiagnosticPolicy;
+  // Organize imports before each save
+  organizeImportsOnSave: boolean;
   lastModified: number;
   isSaving: boolean;
   isDirty: boolean;
 }
 
+/**
+ * How edits that introduce new errors are handled
+ * - allow: apply them and report success
+ * - warn: apply them but report failure
+ * - rejectNewErrors: revert them and report only the new problems
+ */
+export type DiagnosticPolicy = 'allow' | 'warn' | 'rejectNewErrors';
+
+/**
+ * How to handle a file that changed on disk since the session opened it
+ * - safe: refuse to save
+ * - force: overwrite the file on disk
+ * - merge: apply the session's changes on top of the file on disk
+ */
+export type SaveMode = 'safe' | 'force' | 'merge';
+
+/**
+ * Result of saving a session
+ */
+export interface SaveResult {
+  filePath: string;
+  documentVersion: number;
+  /** Whether changes on disk were merged into the session */
+  merged: boolean;
+}
+
+/**
+ * Text of a session's document, or of a span of its lines
+ */
+export interface DocumentContent {
+  filePath: string;
+  documentVersion: number;
+  lineCount: number;
+
+  /** First line returned (0-based, inclusive) */
+  startLine: number;
+
+  /** Last line returned (0-based, inclusive) */
+  endLine: number;
+
+  /** Text of the lines, prefixed with their line numbers if requested */
+  text: string;
+}
+
+/**
+ * Summary of a session's state
+ */
+export interface SessionInfo {
+  sessionId: string;
+  filePath: string;
+  languageId: string;
+  documentVersion: number;
+  diagnosticPolicy: DiagnosticPolicy;
+  organizeImportsOnSave: boolean;
+  isDirty: boolean;
+  isSaving: boolean;
+  history: {
+    /** Number of recorded edits */
+    depth: number;
+    currentIndex: number;
+    canUndo: boolean;
+    canRedo: boolean;
+  };
+  validation: {
+    /** Timestamp of the last validation (0 if never validated) */
+    lastChecked: number;
+    documentVersion: number;
+    /** Whether the last validation is for the current document version */
+    isCurrent: boolean;
+    errors: number;
+    warnings: number;
+    total: number;
+  };
+  languageServer: Pick<LanguageServerState, 'connected' | 'lastError'>;
+  createdAt: number;
+  lastActivity: number;
+  /** Milliseconds since the session was last used */
+  idleTime: number;
+}
+
+/**
+ * Kind of change made to a session
+ * - created / closed: the session was opened or closed
+ * - document: the session's document changed
+ * - diagnostics: the session's validation state changed
+ * - moved: the session's file was renamed
+ */
+export type SessionChangeKind =
+  | 'created'
+  | 'document'
+  | 'diagnostics'
+  | 'moved'
+  | 'closed';
+
+export interface SessionChangeEvent {
+  sessionId: string;
+  kind: SessionChangeKind;
+}
+
+export type SessionChangeListener = (event: SessionChangeEvent) => void;
+
 /**
  * Represents a session for editing code
  */
@@ -172,3 +588,100 @@ export interface EditSession {
   lastActivity: number;
   state: SessionState;
 }
+
+/**
+ * A file in a workspace session
+ */
+export interface WorkspaceMember {
+  sessionId: string;
+  filePath: string;
+
+  /** Whether the workspace opened the session, and closes it when closed */
+  opened: boolean;
+}
+
+/**
+ * An edit made to a workspace, with the history entry it recorded in each
+ * file it changed
+ */
+export interface WorkspaceHistoryEntry {
+  timestamp: number;
+  files: HistoryEntryRef[];
+}
+
+// One timeline for the edits made across a workspace's files
+export interface WorkspaceTimeline {
+  entries: WorkspaceHistoryEntry[];
+  currentIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Several files edited together under one ID. Each file keeps its own edit
+ * session, so the other tools can still be used on it.
+ */
+export interface WorkspaceSession {
+  id: string;
+  languageId: string;
+  diagnosticPolicy: DiagnosticPolicy;
+  members: WorkspaceMember[];
+  timeline: WorkspaceTimeline;
+  createdAt: number;
+  lastActivity: number;
+}
+
+/**
+ * Edit operations for one file of a workspace
+ */
+export interface WorkspaceFileOperations {
+  /** Path of the file, which must be in the workspace */
+  filePath: string;
+  operations: EditOperation[];
+
+  /** Version of the file's document the operations were written against */
+  documentVersion?: number;
+}
+
+/**
+ * Diagnostics of one file of a workspace
+ */
+export interface WorkspaceFileDiagnostics {
+  filePath: string;
+  sessionId: string;
+  documentVersion: number;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Result of undoing or redoing a workspace edit
+ */
+export interface WorkspaceHistoryResult {
+  success: boolean;
+
+  /** Files the edit changed, with their new document versions */
+  files: { filePath: string; sessionId: string; documentVersion: number }[];
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Summary of a workspace session's state
+ */
+export interface WorkspaceInfo {
+  workspaceId: string;
+  languageId: string;
+  diagnosticPolicy: DiagnosticPolicy;
+  files: SessionInfo[];
+  timeline: {
+    /** Number of recorded edits */
+    depth: number;
+    currentIndex: number;
+    canUndo: boolean;
+    canRedo: boolean;
+  };
+  createdAt: number;
+  lastActivity: number;
+  /** Milliseconds since the workspace was last used */
+  idleTime: number;
+}
@@ -41,3 +41,13 @@ export class ValidationError extends BaseError {
     super(message, `VALIDATION_${code}`, details);
   }
 }
+
+export class EditError extends BaseError {
+  constructor(
+    message: string,
+    code: string,
+    details?: Record<string, unknown>
+  ) {
+    super(message, `EDIT_${code}`, details);
+  }
+}
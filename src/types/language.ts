@@ -1,12 +1,31 @@
 // src/types/language.ts
+export interface LanguageFormatOptions {
+  tabSize: number;
+  insertSpaces: boolean;
+  trimTrailingWhitespace?: boolean;
+  insertFinalNewline?: boolean;
+}
+
+/**
+ * A formatting config that could not be read
+ */
+export interface SkippedFormatConfig {
+  path: string;
+  error: string;
+}
+
+/**
+ * Formatting options resolved for a file
+ */
+export interface ResolvedFormatOptions {
+  options: LanguageFormatOptions;
+  /** Configs that could not be read, so their settings were not applied */
+  skippedConfigs: SkippedFormatConfig[];
+}
+
 export interface LanguageOptions {
   // Generic options that apply to all languages
-  formatOptions?: {
-    tabSize: number;
-    insertSpaces: boolean;
-    trimTrailingWhitespace?: boolean;
-    insertFinalNewline?: boolean;
-  };
+  formatOptions?: LanguageFormatOptions;
 
   // Language-specific options as a union type
   specificOptions?: TypeScriptOptions | PythonOptions | JavaOptions;
@@ -1,12 +1,28 @@
 // src/types/lsp.ts
 
 import {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CodeAction,
+  Command,
+  CompletionItem,
   Diagnostic,
+  DocumentSymbol,
+  Hover,
+  InlayHint,
   Location,
   LocationLink,
   Position,
+  PrepareRenameResult,
+  Range,
+  SignatureHelp,
+  SymbolInformation,
   TextEdit,
+  TypeHierarchyItem,
+  WorkspaceEdit,
 } from 'vscode-languageserver-protocol';
+import { LanguageFormatOptions, ResolvedFormatOptions } from './language.js';
 
 export interface TypeScriptPreferences {
   importModuleSpecifierPreference?: 'relative' | 'non-relative';
@@ -17,21 +33,38 @@ export interface TypeScriptPreferences {
   includeInlayParameterNameHints?: 'all' | 'literals' | 'none';
   includeInlayPropertyDeclarationTypeHints?: boolean;
   includeInlayFunctionLikeReturnTypeHints?: boolean;
+  includeInlayFunctionParameterTypeHints?: boolean;
+  includeInlayVariableTypeHints?: boolean;
+  includeInlayEnumMemberValueHints?: boolean;
+  providePrefixAndSuffixTextForRename?: boolean;
+  excludeLibrarySymbolsInNavTo?: boolean;
 }
 
 export interface TypeScriptServerInitializationOptions {
   preferences?: TypeScriptPreferences;
 }
 
+/**
+ * Called when a language's server starts, or stops or exits
+ * @param error Why the server stopped, if it did not stop on request
+ */
+export type ServerStateListener = (
+  languageId: string,
+  connected: boolean,
+  error?: Error
+) => void;
+
 export interface LSPManager {
   startServer(languageId: string): Promise<void>;
   stopServer(languageId: string): Promise<void>;
   getServer(languageId: string): Promise<LanguageServer>;
+  getFormatOptions(filePath: string): Promise<ResolvedFormatOptions>;
   validateDocument(
     uri: string,
     content: string,
     languageId: string
   ): Promise<Diagnostic[]>;
+  onDidChangeServerState(listener: ServerStateListener): () => void;
 }
 
 export interface LanguageServer {
@@ -43,14 +76,75 @@ export interface LanguageServer {
   didOpen(uri: string, content: string, version: number): Promise<void>;
   didChange(uri: string, changes: TextEdit[], version: number): Promise<void>;
   didClose(uri: string): Promise<void>;
+  syncDocument(uri: string, content: string): Promise<void>;
 
   // Features
   validateDocument(uri: string, content: string): Promise<Diagnostic[]>;
-  formatDocument(uri: string, content: string): Promise<TextEdit[]>;
+  formatDocument(
+    uri: string,
+    content: string,
+    options: LanguageFormatOptions
+  ): Promise<TextEdit[]>;
+  formatRange(
+    uri: string,
+    range: Range,
+    options: LanguageFormatOptions
+  ): Promise<TextEdit[]>;
   getDefinition(
     uri: string,
     position: Position
   ): Promise<Location[] | LocationLink[]>;
+  getReferences(
+    uri: string,
+    position: Position,
+    includeDeclaration: boolean
+  ): Promise<Location[]>;
+  getHover(uri: string, position: Position): Promise<Hover | null>;
+  getSignatureHelp(
+    uri: string,
+    position: Position
+  ): Promise<SignatureHelp | null>;
+  getInlayHints(uri: string, range: Range): Promise<InlayHint[]>;
+  getCompletions(uri: string, position: Position): Promise<CompletionItem[]>;
+  resolveCompletion(item: CompletionItem): Promise<CompletionItem>;
+  getCodeActions(
+    uri: string,
+    range: Range,
+    diagnostics: Diagnostic[],
+    only?: string[]
+  ): Promise<(CodeAction | Command)[]>;
+  executeCommand(command: Command): Promise<WorkspaceEdit[]>;
+  prepareRename(
+    uri: string,
+    position: Position
+  ): Promise<PrepareRenameResult | null>;
+  rename(
+    uri: string,
+    position: Position,
+    newName: string
+  ): Promise<WorkspaceEdit | null>;
+  willRenameFiles(
+    oldUri: string,
+    newUri: string
+  ): Promise<WorkspaceEdit | null>;
+  getDocumentSymbols(uri: string): Promise<DocumentSymbol[]>;
+  getWorkspaceSymbols(query: string): Promise<SymbolInformation[]>;
+  prepareCallHierarchy(
+    uri: string,
+    position: Position
+  ): Promise<CallHierarchyItem[]>;
+  getIncomingCalls(
+    item: CallHierarchyItem
+  ): Promise<CallHierarchyIncomingCall[]>;
+  getOutgoingCalls(
+    item: CallHierarchyItem
+  ): Promise<CallHierarchyOutgoingCall[]>;
+  prepareTypeHierarchy(
+    uri: string,
+    position: Position
+  ): Promise<TypeHierarchyItem[]>;
+  getSupertypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[]>;
+  getSubtypes(item: TypeHierarchyItem): Promise<TypeHierarchyItem[]>;
 }
 
 export interface DiagnosticHandler {
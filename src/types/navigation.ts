@@ -0,0 +1,289 @@
+// src/types/navigation.ts
+import { Position, Range, TextEdit } from 'vscode-languageserver-protocol';
+import { TextAnchor } from './editor.js';
+import { BaseError } from './errors.js';
+
+export class NavigationError extends BaseError {
+  constructor(
+    message: string,
+    code: string,
+    details?: Record<string, unknown>
+  ) {
+    super(message, `NAVIGATION_${code}`, details);
+  }
+}
+
+/**
+ * Identifies a symbol in a session's document, either by position or by
+ * text that contains it
+ */
+export interface SymbolQuery {
+  /** Position of the symbol (0-based) */
+  position?: Position;
+
+  /** Text at the start of the symbol, with optional context */
+  anchor?: TextAnchor;
+}
+
+/**
+ * A location in a file, with the source text around it
+ */
+export interface SourceLocation {
+  /** Path of the file */
+  filePath: string;
+
+  /** Range of the location (0-based) */
+  range: Range;
+
+  /** Numbered source lines around the location, if the file is readable */
+  excerpt?: string;
+}
+
+/**
+ * References found for a symbol
+ */
+export interface ReferencesResult {
+  /** Reported references, up to the requested limit */
+  references: SourceLocation[];
+
+  /** Number of references found */
+  total: number;
+}
+
+/**
+ * Hover information for a symbol, rendered as text
+ */
+export interface HoverInfo {
+  /** Type information and documentation, as markdown */
+  contents: string;
+
+  /** Range of the symbol the information applies to */
+  range?: Range;
+}
+
+/**
+ * A completion offered at a position
+ */
+export interface CompletionInfo {
+  /** Text shown for the completion */
+  label: string;
+
+  /** Kind of item, e.g. method or variable */
+  kind?: string;
+
+  /** Type or source of the item, e.g. the module it would be imported from */
+  detail?: string;
+
+  /** Text the completion inserts */
+  insertText: string;
+
+  /** Documentation, as markdown (resolved completions only) */
+  documentation?: string;
+
+  /** Edits made along with the insertion, such as adding an import */
+  additionalTextEdits?: TextEdit[];
+}
+
+/**
+ * Completions found at a position
+ */
+export interface CompletionsResult {
+  /** Best matches for the text before the position, best first */
+  items: CompletionInfo[];
+
+  /** Number of matching completions */
+  total: number;
+}
+
+/**
+ * Picks one completion from those offered at a position
+ */
+export interface CompletionSelection {
+  /** Label of the completion */
+  label: string;
+
+  /** Detail of the completion, to tell apart completions with one label */
+  detail?: string;
+}
+
+/**
+ * Limits on how much of a document's outline is rendered
+ */
+export interface OutlineOptions {
+  /** Levels of nesting to show, 1 for top-level symbols only */
+  depth?: number;
+
+  /** Approximate size of the rendered outline, in tokens */
+  maxTokens?: number;
+}
+
+/**
+ * The symbols of a document, rendered as an indented outline
+ */
+export interface OutlineResult {
+  filePath: string;
+  documentVersion: number;
+
+  /**
+   * One line per symbol: kind, name, 0-based line range and the source line
+   * it is declared on. Symbols whose children were left out end with the
+   * number hidden.
+   */
+  outline: string;
+
+  /** Number of symbols in the document */
+  symbolCount: number;
+
+  /** Number of symbols in the outline */
+  shownCount: number;
+}
+
+/**
+ * Narrows a workspace symbol search
+ */
+export interface SymbolSearchOptions {
+  /** Language whose project to search (default typescript) */
+  languageId?: string;
+
+  /** Kinds of symbol to keep, e.g. class or function */
+  kinds?: string[];
+
+  /** Maximum number of symbols to report */
+  maxResults?: number;
+
+  /** 1-based index of a reported symbol to open a session on */
+  openResult?: number;
+}
+
+/**
+ * A symbol found by a workspace search
+ */
+export interface WorkspaceSymbolInfo extends SourceLocation {
+  name: string;
+
+  /** Kind of symbol, e.g. class or function */
+  kind: string;
+
+  /** Name of the symbol it is declared in, if any */
+  containerName?: string;
+}
+
+/**
+ * Symbols found by a workspace search
+ */
+export interface SymbolSearchResult {
+  /** Best matches for the query, best first */
+  symbols: WorkspaceSymbolInfo[];
+
+  /** Number of matching symbols */
+  total: number;
+
+  /** Session on the symbol picked by openResult */
+  session?: {
+    sessionId: string;
+    filePath: string;
+  };
+}
+
+/**
+ * A parameter of a signature
+ */
+export interface SignatureParameterInfo {
+  /** Parameter as written in the signature, e.g. `count: number` */
+  label: string;
+
+  /** Documentation, as markdown */
+  documentation?: string;
+}
+
+/**
+ * One signature of the function being called
+ */
+export interface SignatureInfo {
+  /** Signature as written, e.g. `add(a: number, b: number): number` */
+  label: string;
+
+  /** Documentation, as markdown */
+  documentation?: string;
+
+  parameters: SignatureParameterInfo[];
+
+  /** Index of the parameter the position is in, if any */
+  activeParameter?: number;
+}
+
+/**
+ * Signatures of the call at a position
+ */
+export interface SignatureHelpInfo {
+  /** Signatures of the function, one per overload */
+  signatures: SignatureInfo[];
+
+  /** Index of the signature that best matches the call's arguments */
+  activeSignature: number;
+}
+
+/**
+ * A span of a document rendered with inlay hints
+ */
+export interface InlayHintsResult {
+  filePath: string;
+  documentVersion: number;
+
+  /** First line rendered (0-based) */
+  startLine: number;
+
+  /** Last line rendered (0-based) */
+  endLine: number;
+
+  /**
+   * Numbered lines with the inferred types and parameter names written
+   * in, each hint wrapped in a block comment
+   */
+  code: string;
+
+  /** Number of hints rendered */
+  hintCount: number;
+}
+
+/**
+ * A function or type in a call or type hierarchy
+ */
+export interface HierarchyNode extends SourceLocation {
+  name: string;
+
+  /** Kind of symbol, e.g. method or class */
+  kind: string;
+
+  /** Extra detail from the language server, such as the containing class */
+  detail?: string;
+
+  /**
+   * Calls linking the node to its parent: for incoming calls, where the node
+   * calls its parent; for outgoing calls, where the parent calls the node
+   */
+  callSites?: SourceLocation[];
+
+  /**
+   * Callers, callees, supertypes or subtypes of the node. Left out when the
+   * depth limit was reached or the node is a cycle.
+   */
+  children?: HierarchyNode[];
+
+  /** Set when the node already appears above itself in the tree */
+  cycle?: boolean;
+}
+
+/**
+ * A call or type hierarchy walked from a symbol
+ */
+export interface HierarchyResult {
+  /** Symbols at the queried position, usually one */
+  roots: HierarchyNode[];
+
+  /** Number of nodes in the tree */
+  nodeCount: number;
+
+  /** Whether nodes were left out to keep the tree within its size limit */
+  truncated: boolean;
+}
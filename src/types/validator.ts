@@ -17,3 +17,15 @@ export interface ValidationResult {
   errors?: ValidationError[];
   warnings?: string[];
 }
+
+/**
+ * Diagnostics for the simulated result of applying edits to a document
+ */
+export interface SimulationResult {
+  /** Content after the edits */
+  content: string;
+  /** Diagnostics for the content after the edits */
+  diagnostics: Diagnostic[];
+  /** Diagnostics for the document before the edits */
+  baseline: Diagnostic[];
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  Range,
+} from 'vscode-languageserver-protocol';
+import { diffDiagnostics, getErrors } from '../diagnostics.js';
+
+function diagnostic(
+  line: number,
+  message: string,
+  severity: DiagnosticSeverity = DiagnosticSeverity.Error
+): Diagnostic {
+  return {
+    range: Range.create(line, 4, line, 10),
+    message,
+    severity,
+    code: 2304,
+  };
+}
+
+/** Maps ranges as if two lines were inserted above line 5 */
+function shiftBelowLine5(range: Range): Range {
+  const shift = (line: number) => (line >= 5 ? line + 2 : line);
+  return Range.create(
+    shift(range.start.line),
+    range.start.character,
+    shift(range.end.line),
+    range.end.character
+  );
+}
+
+describe('diffDiagnostics', () => {
+  it('matches diagnostics the change moved', () => {
+    const before = [diagnostic(1, 'a'), diagnostic(8, 'b')];
+    const after = [diagnostic(1, 'a'), diagnostic(10, 'b')];
+
+    const delta = diffDiagnostics(before, after, shiftBelowLine5);
+
+    expect(delta.introduced).toEqual([]);
+    expect(delta.resolved).toEqual([]);
+    expect(delta.preExisting).toEqual(after);
+    expect(delta.preExistingCount).toBe(2);
+  });
+
+  it('reports diagnostics that stayed put while their line moved', () => {
+    const before = [diagnostic(8, 'b')];
+    const after = [diagnostic(8, 'b')];
+
+    const delta = diffDiagnostics(before, after, shiftBelowLine5);
+
+    expect(delta.introduced).toEqual(after);
+    expect(delta.resolved).toEqual(before);
+    expect(delta.preExistingCount).toBe(0);
+  });
+
+  it('compares ranges as they are without a mapping', () => {
+    const delta = diffDiagnostics([diagnostic(8, 'b')], [diagnostic(10, 'b')]);
+
+    expect(delta.introduced).toEqual([diagnostic(10, 'b')]);
+    expect(delta.resolved).toEqual([diagnostic(8, 'b')]);
+  });
+
+  it('matches identical diagnostics one for one', () => {
+    const delta = diffDiagnostics(
+      [diagnostic(1, 'a')],
+      [diagnostic(1, 'a'), diagnostic(1, 'a'), diagnostic(2, 'c')]
+    );
+
+    expect(delta.preExisting).toEqual([diagnostic(1, 'a')]);
+    expect(delta.introduced).toEqual([diagnostic(1, 'a'), diagnostic(2, 'c')]);
+    expect(delta.resolved).toEqual([]);
+  });
+
+  it('tells diagnostics apart by severity and message', () => {
+    const delta = diffDiagnostics(
+      [diagnostic(1, 'a', DiagnosticSeverity.Warning)],
+      [diagnostic(1, 'a'), diagnostic(3, 'other')]
+    );
+
+    expect(delta.introduced).toHaveLength(2);
+    expect(delta.resolved).toEqual([
+      diagnostic(1, 'a', DiagnosticSeverity.Warning),
+    ]);
+  });
+});
+
+describe('getErrors', () => {
+  it('keeps only errors', () => {
+    expect(
+      getErrors([
+        diagnostic(1, 'a'),
+        diagnostic(2, 'b', DiagnosticSeverity.Warning),
+      ])
+    ).toEqual([diagnostic(1, 'a')]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from '@jest/globals';
+import { Range, TextEdit } from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+  computeTextEdits,
+  getAppliedRanges,
+  getReplacedText,
+} from '../edits.js';
+
+/**
+ * Applies edits, then the inverse edits an undo would apply, and returns
+ * the text after each step
+ */
+function applyAndUndo(
+  text: string,
+  edits: TextEdit[]
+): { applied: string; restored: string } {
+  const before = TextDocument.create('file:///a.ts', 'typescript', 1, text);
+  const applied = TextDocument.applyEdits(before, edits);
+  const after = TextDocument.create('file:///a.ts', 'typescript', 2, applied);
+
+  const replacedText = getReplacedText(before, edits);
+  const inverse = getAppliedRanges(before, edits, after).map(
+    (range, index) => ({ range, newText: replacedText[index] })
+  );
+
+  return { applied, restored: TextDocument.applyEdits(after, inverse) };
+}
+
+describe('getAppliedRanges and getReplacedText', () => {
+  it('restore replaced text', () => {
+    const text = 'const a = 1;\nconst b = 2;\n';
+
+    const { applied, restored } = applyAndUndo(text, [
+      { range: Range.create(1, 6, 1, 7), newText: 'longerName' },
+    ]);
+
+    expect(applied).toBe('const a = 1;\nconst longerName = 2;\n');
+    expect(restored).toBe(text);
+  });
+
+  it('restore deleted and inserted text', () => {
+    const text = 'one\ntwo\nthree\n';
+
+    expect(
+      applyAndUndo(text, [{ range: Range.create(1, 0, 2, 0), newText: '' }])
+        .restored
+    ).toBe(text);
+    expect(
+      applyAndUndo(text, [
+        { range: Range.create(3, 0, 3, 0), newText: 'four\nfive\n' },
+      ]).restored
+    ).toBe(text);
+  });
+
+  it('restore several edits given out of order', () => {
+    const text = 'alpha beta gamma\ndelta epsilon\n';
+
+    const { applied, restored } = applyAndUndo(text, [
+      { range: Range.create(1, 6, 1, 13), newText: 'E' },
+      { range: Range.create(0, 0, 0, 5), newText: 'A\nA' },
+      { range: Range.create(0, 11, 1, 5), newText: '' },
+      { range: Range.create(1, 13, 1, 13), newText: ';' },
+    ]);
+
+    expect(applied).toBe('A\nA beta  E;\n');
+    expect(restored).toBe(text);
+  });
+
+  it('restore insertions at the same position in order', () => {
+    const text = 'ab';
+
+    const { applied, restored } = applyAndUndo(text, [
+      { range: Range.create(0, 1, 0, 1), newText: 'x' },
+      { range: Range.create(0, 1, 0, 1), newText: 'y' },
+    ]);
+
+    expect(applied).toBe('axyb');
+    expect(restored).toBe(text);
+  });
+
+  it('restore CRLF line breaks byte for byte', () => {
+    const text = 'first\r\nsecond\r\nthird\r\n';
+
+    const { applied, restored } = applyAndUndo(text, [
+      { range: Range.create(0, 5, 1, 6), newText: '\nreplaced' },
+      { range: Range.create(2, 0, 3, 0), newText: 'last\r\n\r\n' },
+    ]);
+
+    expect(applied).toBe('first\nreplaced\r\nlast\r\n\r\n');
+    expect(restored).toBe(text);
+  });
+});
+
+describe('computeTextEdits', () => {
+  it('computes edits that produce the new text and can be undone', () => {
+    const text = 'a\nb\nc\nd\n';
+    const newText = 'a\nB\nc\nd\ne\n';
+    const document = TextDocument.create('file:///a.ts', 'typescript', 1, text);
+
+    const edits = computeTextEdits(document, newText);
+    const { applied, restored } = applyAndUndo(text, edits);
+
+    expect(applied).toBe(newText);
+    expect(restored).toBe(text);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  editorConfigToFormatOptions,
+  parseEditorConfig,
+  parsePrettierConfig,
+} from '../formatting.js';
+
+describe('parseEditorConfig', () => {
+  const content = [
+    'root = true',
+    '',
+    '[*]',
+    'indent_style = space',
+    'indent_size = 2',
+    'insert_final_newline = true',
+    '',
+    '[*.{ts,tsx}]',
+    'indent_size = 4',
+    '',
+    '[*.tsx]',
+    'Indent_Size = 3',
+    '',
+    '[/src/*.md]',
+    'trim_trailing_whitespace = false',
+  ].join('\n');
+
+  it('applies the sections matching the file in order', () => {
+    expect(parseEditorConfig(content, 'src/index.ts')).toEqual({
+      root: true,
+      properties: {
+        indent_style: 'space',
+        indent_size: '4',
+        insert_final_newline: 'true',
+      },
+    });
+    expect(
+      parseEditorConfig(content, 'src/App.tsx').properties.indent_size
+    ).toBe('3');
+  });
+
+  it('matches globs with a slash from the directory of the file', () => {
+    expect(
+      parseEditorConfig(content, 'src/README.md').properties
+        .trim_trailing_whitespace
+    ).toBe('false');
+    expect(
+      parseEditorConfig(content, 'docs/src/README.md').properties
+        .trim_trailing_whitespace
+    ).toBeUndefined();
+  });
+
+  it('ignores properties outside matching sections', () => {
+    expect(
+      parseEditorConfig('indent_size = 4\n[*.py]\nindent_size = 4', 'a.ts')
+    ).toEqual({ root: false, properties: {} });
+  });
+});
+
+describe('editorConfigToFormatOptions', () => {
+  it('converts indentation and whitespace properties', () => {
+    expect(
+      editorConfigToFormatOptions({
+        indent_style: 'space',
+        indent_size: '4',
+        insert_final_newline: 'true',
+        trim_trailing_whitespace: 'false',
+      })
+    ).toEqual({
+      insertSpaces: true,
+      tabSize: 4,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: false,
+    });
+  });
+
+  it('uses the tab width when indenting with tabs', () => {
+    expect(
+      editorConfigToFormatOptions({
+        indent_style: 'tab',
+        indent_size: 'tab',
+        tab_width: '8',
+      })
+    ).toEqual({ insertSpaces: false, tabSize: 8 });
+  });
+});
+
+describe('parsePrettierConfig', () => {
+  it('reads the indentation options', () => {
+    expect(parsePrettierConfig({ tabWidth: 4, useTabs: true })).toEqual({
+      tabSize: 4,
+      insertSpaces: false,
+    });
+  });
+
+  it('ignores options of the wrong type', () => {
+    expect(parsePrettierConfig({ tabWidth: '4', singleQuote: true })).toEqual(
+      {}
+    );
+    expect(parsePrettierConfig('prettier-config-standard')).toEqual({});
+  });
+});
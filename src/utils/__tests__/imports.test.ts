@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { getImportedNames, getLocalName, parseImports } from '../imports.js';
+
+describe('parseImports', () => {
+  it('reads the bindings and style of each declaration', () => {
+    const text = [
+      "import React, { useState, useEffect as effect } from 'react';",
+      'import type { FC } from "react"',
+      "import * as path from 'path';",
+      "import './styles.css';",
+    ].join('\n');
+
+    const imports = parseImports(text);
+
+    expect(imports).toHaveLength(4);
+    expect(imports[0]).toMatchObject({
+      start: 0,
+      end: text.indexOf('\n'),
+      moduleSpecifier: 'react',
+      typeOnly: false,
+      defaultImport: 'React',
+      namedImports: ['useState', 'useEffect as effect'],
+      quote: "'",
+      hasSemicolon: true,
+      multiline: false,
+    });
+    expect(imports[1]).toMatchObject({
+      moduleSpecifier: 'react',
+      typeOnly: true,
+      namedImports: ['FC'],
+      quote: '"',
+      hasSemicolon: false,
+    });
+    expect(imports[2]).toMatchObject({
+      moduleSpecifier: 'path',
+      namespaceImport: 'path',
+    });
+    expect(imports[2].namedImports).toBeUndefined();
+    expect(imports[3]).toMatchObject({ moduleSpecifier: './styles.css' });
+  });
+
+  it('reads declarations spanning several lines', () => {
+    const text = "import {\n  a,\n  b,\n} from './ab';\nconst c = 1;\n";
+
+    const [info] = parseImports(text);
+
+    expect(info.namedImports).toEqual(['a', 'b']);
+    expect(info.multiline).toBe(true);
+    expect(text.slice(info.start, info.end)).toBe(
+      "import {\n  a,\n  b,\n} from './ab';"
+    );
+  });
+
+  it('skips imports that do not start a line', () => {
+    expect(parseImports('const text = "import a from \'a\'";')).toEqual([]);
+  });
+});
+
+describe('getImportedNames', () => {
+  it('lists the local names of every binding', () => {
+    const [info] = parseImports(
+      "import React, { useState, type FC, useEffect as effect } from 'react';"
+    );
+
+    expect(getImportedNames(info)).toEqual([
+      'React',
+      'useState',
+      'FC',
+      'effect',
+    ]);
+    expect(getLocalName('type A as B')).toBe('B');
+  });
+});
@@ -0,0 +1,224 @@
+import path from 'path';
+import { describe, expect, it } from '@jest/globals';
+import { DirectoryEntry, FileStats, FileSystemManager } from '../fs.js';
+import { globToRegExp, searchText, TextSearchOptions } from '../search.js';
+
+const ROOT = path.resolve('/project');
+
+/**
+ * Read-only file system over a map of paths, relative to ROOT, to contents
+ */
+class MemoryFileSystem implements FileSystemManager {
+  private readonly files = new Map<string, string>();
+
+  constructor(files: Record<string, string>) {
+    for (const [name, content] of Object.entries(files)) {
+      this.files.set(path.join(ROOT, name), content);
+    }
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const content = this.files.get(filePath);
+    if (content === undefined) {
+      throw new Error(`No such file: ${filePath}`);
+    }
+    return content;
+  }
+
+  async stat(filePath: string): Promise<FileStats> {
+    return { mtimeMs: 0, size: (await this.readFile(filePath)).length };
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return this.files.has(filePath) || this.isDirectory(filePath);
+  }
+
+  async isDirectory(dir: string): Promise<boolean> {
+    return Array.from(this.files.keys()).some((filePath) =>
+      filePath.startsWith(`${dir}${path.sep}`)
+    );
+  }
+
+  async readDirectory(dir: string): Promise<DirectoryEntry[]> {
+    const entries = new Map<string, boolean>();
+    for (const filePath of this.files.keys()) {
+      if (filePath.startsWith(`${dir}${path.sep}`)) {
+        const [name, ...rest] = path.relative(dir, filePath).split(path.sep);
+        entries.set(name, rest.length > 0);
+      }
+    }
+    return Array.from(entries, ([name, isDirectory]) => ({
+      name,
+      isDirectory,
+    }));
+  }
+
+  async validatePath(filePath: string): Promise<string> {
+    return filePath;
+  }
+
+  async writeFile(): Promise<void> {
+    throw new Error('Read-only');
+  }
+
+  async rename(): Promise<void> {
+    throw new Error('Read-only');
+  }
+
+  async unlink(): Promise<void> {
+    throw new Error('Read-only');
+  }
+
+  async createDirectory(): Promise<void> {
+    throw new Error('Read-only');
+  }
+
+  async removeDirectory(): Promise<void> {
+    throw new Error('Read-only');
+  }
+}
+
+/**
+ * Searches the files for `needle`, which each of them contains, and lists
+ * the ones searched
+ */
+async function searchedFiles(
+  files: Record<string, string>,
+  options: Partial<TextSearchOptions> = {}
+): Promise<string[]> {
+  const result = await searchText(new MemoryFileSystem(files), [ROOT], {
+    pattern: 'needle',
+    ...options,
+  });
+  return result.matches.map((match) =>
+    path.relative(ROOT, match.filePath).split(path.sep).join('/')
+  );
+}
+
+describe('globToRegExp', () => {
+  it('matches `*` and `?` within a path segment', () => {
+    const regex = globToRegExp('src/*.t?');
+
+    expect(regex.test('src/index.ts')).toBe(true);
+    expect(regex.test('src/index.tsx')).toBe(false);
+    expect(regex.test('src/utils/index.ts')).toBe(false);
+  });
+
+  it('matches `**` across segments, including none', () => {
+    const regex = globToRegExp('src/**/*.ts');
+
+    expect(regex.test('src/index.ts')).toBe(true);
+    expect(regex.test('src/a/b/index.ts')).toBe(true);
+    expect(regex.test('lib/index.ts')).toBe(false);
+    expect(globToRegExp('dist/**').test('dist/a/b.js')).toBe(true);
+  });
+
+  it('matches brace alternatives and character classes', () => {
+    const braces = globToRegExp('*.{ts,tsx}');
+    const classes = globToRegExp('file[0-9].[!j]s');
+
+    expect(braces.test('a.ts')).toBe(true);
+    expect(braces.test('a.tsx')).toBe(true);
+    expect(braces.test('a.js')).toBe(false);
+    expect(classes.test('file1.ts')).toBe(true);
+    expect(classes.test('file1.js')).toBe(false);
+    expect(classes.test('fileA.ts')).toBe(false);
+  });
+
+  it('matches other characters literally', () => {
+    const regex = globToRegExp('a+b(1).ts');
+
+    expect(regex.test('a+b(1).ts')).toBe(true);
+    expect(regex.test('aab(1)xts')).toBe(false);
+  });
+});
+
+describe('searchText', () => {
+  it('skips what .gitignore files ignore', async () => {
+    const files = await searchedFiles({
+      '.gitignore': '# build output\ndist/\n*.log\n/top.ts\n',
+      'src/index.ts': 'needle',
+      'src/top.ts': 'needle',
+      'top.ts': 'needle',
+      'debug.log': 'needle',
+      'src/nested/debug.log': 'needle',
+      'dist/index.js': 'needle',
+    });
+
+    expect(files).toEqual(['src/index.ts', 'src/top.ts']);
+  });
+
+  it('re-includes paths matching a later negated rule', async () => {
+    const files = await searchedFiles({
+      '.gitignore': '*.log\n!keep.log\n',
+      'debug.log': 'needle',
+      'keep.log': 'needle',
+    });
+
+    expect(files).toEqual(['keep.log']);
+  });
+
+  it('applies nested .gitignore files relative to their directory', async () => {
+    const files = await searchedFiles({
+      'src/.gitignore': '/generated.ts\n',
+      'src/generated.ts': 'needle',
+      'src/lib/generated.ts': 'needle',
+      'generated.ts': 'needle',
+    });
+
+    expect(files).toEqual(['generated.ts', 'src/lib/generated.ts']);
+  });
+
+  it('applies directory-only rules to directories alone', async () => {
+    const files = await searchedFiles({
+      '.gitignore': 'out/\n',
+      out: 'needle',
+      'lib/out/a.ts': 'needle',
+    });
+
+    expect(files).toEqual(['out']);
+  });
+
+  it('searches ignored files when .gitignore is not used', async () => {
+    const files = await searchedFiles(
+      { '.gitignore': '*.log\n', 'debug.log': 'needle' },
+      { useGitignore: false }
+    );
+
+    expect(files).toEqual(['debug.log']);
+  });
+
+  it('filters files by include and exclude globs', async () => {
+    const files = await searchedFiles(
+      {
+        'src/a.ts': 'needle',
+        'src/a.test.ts': 'needle',
+        'src/b.js': 'needle',
+        'test/c.ts': 'needle',
+      },
+      { include: ['*.ts'], exclude: ['*.test.ts', 'test/'] }
+    );
+
+    expect(files).toEqual(['src/a.ts']);
+  });
+
+  it('skips subdirectories that cannot be read', async () => {
+    const fs = new MemoryFileSystem({
+      'private/a.ts': 'needle',
+      'src/b.ts': 'needle',
+    });
+    const readDirectory = fs.readDirectory.bind(fs);
+    fs.readDirectory = async (dir) => {
+      if (dir === path.join(ROOT, 'private')) {
+        throw new Error(`Permission denied: ${dir}`);
+      }
+      return readDirectory(dir);
+    };
+
+    const result = await searchText(fs, [ROOT], { pattern: 'needle' });
+
+    expect(result.matches.map((match) => match.filePath)).toEqual([
+      path.join(ROOT, 'src/b.ts'),
+    ]);
+  });
+});
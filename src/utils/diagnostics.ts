@@ -0,0 +1,72 @@
+// src/utils/diagnostics.ts
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  Range,
+} from 'vscode-languageserver-protocol';
+import { DiagnosticDelta } from '../types/editor.js';
+
+/**
+ * Identifies a diagnostic by its severity, code, message and range
+ */
+function getDiagnosticKey(diagnostic: Diagnostic, range: Range): string {
+  return JSON.stringify([
+    diagnostic.severity,
+    diagnostic.code,
+    diagnostic.message,
+    range.start.line,
+    range.start.character,
+    range.end.line,
+    range.end.character,
+  ]);
+}
+
+/**
+ * Compares the diagnostics of two versions of a document. Diagnostics are
+ * matched by severity, code, message and range, after shifting the ranges
+ * of the earlier diagnostics to where the change moved them.
+ * @param before Diagnostics before the change
+ * @param after Diagnostics after the change
+ * @param mapRange Maps a range before the change to the range after it
+ */
+export function diffDiagnostics(
+  before: Diagnostic[],
+  after: Diagnostic[],
+  mapRange: (range: Range) => Range = (range) => range
+): DiagnosticDelta {
+  const remaining = new Map<string, Diagnostic[]>();
+  for (const diagnostic of before) {
+    const key = getDiagnosticKey(diagnostic, mapRange(diagnostic.range));
+    remaining.set(key, [...(remaining.get(key) ?? []), diagnostic]);
+  }
+
+  const introduced: Diagnostic[] = [];
+  const preExisting: Diagnostic[] = [];
+  for (const diagnostic of after) {
+    const matches = remaining.get(
+      getDiagnosticKey(diagnostic, diagnostic.range)
+    );
+    if (matches?.length) {
+      matches.shift();
+      preExisting.push(diagnostic);
+    } else {
+      introduced.push(diagnostic);
+    }
+  }
+
+  return {
+    introduced,
+    resolved: Array.from(remaining.values()).flat(),
+    preExisting,
+    preExistingCount: preExisting.length,
+  };
+}
+
+/**
+ * Gets the diagnostics that are errors
+ */
+export function getErrors(diagnostics: Diagnostic[]): Diagnostic[] {
+  return diagnostics.filter(
+    (diagnostic) => diagnostic.severity === DiagnosticSeverity.Error
+  );
+}
@@ -0,0 +1,75 @@
+// src/utils/document.ts
+import { Range } from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+
+/** Lines of a multi-line range shown before its excerpt is cut off */
+const MAX_EXCERPT_RANGE_LINES = 3;
+
+/**
+ * Gets the text of a span of lines, without line terminators
+ * @param document Document to read
+ * @param startLine First line (0-based, inclusive)
+ * @param endLine Last line (0-based, inclusive)
+ */
+export function getLines(
+  document: TextDocument,
+  startLine: number,
+  endLine: number
+): string[] {
+  return document
+    .getText(Range.create(startLine, 0, endLine + 1, 0))
+    .replace(/\r?\n$/, '')
+    .split(/\r?\n/);
+}
+
+/**
+ * Prefixes lines with their 0-based line numbers, right-aligned so the text
+ * starts in the same column on every line
+ * @param lines Lines to number
+ * @param firstLine Line number of the first line
+ */
+export function formatNumberedLines(
+  lines: string[],
+  firstLine: number
+): string {
+  const width = String(firstLine + lines.length - 1).length;
+  return lines
+    .map(
+      (line, index) => `${String(firstLine + index).padStart(width)}| ${line}`
+    )
+    .join('\n');
+}
+
+/**
+ * Gets the numbered lines around a range, to show where it is. Ranges
+ * spanning many lines are cut off after their first few.
+ * @param document Document containing the range
+ * @param range Range to show
+ * @param contextLines Lines to include before and after the range
+ */
+export function getExcerpt(
+  document: TextDocument,
+  range: Range,
+  contextLines: number
+): string {
+  const lastRangeLine = Math.min(
+    range.end.line,
+    range.start.line + MAX_EXCERPT_RANGE_LINES - 1
+  );
+  const startLine = Math.max(0, range.start.line - contextLines);
+  const endLine = Math.min(
+    document.lineCount - 1,
+    lastRangeLine + contextLines
+  );
+
+  return formatNumberedLines(getLines(document, startLine, endLine), startLine);
+}
+
+/**
+ * Converts a file URI reported by a language server to a file path. Other
+ * URIs are returned unchanged, since session documents use plain paths.
+ */
+export function toFilePath(uri: string): string {
+  return uri.startsWith('file:') ? URI.parse(uri).fsPath : uri;
+}
@@ -0,0 +1,188 @@
+// src/utils/edits.ts
+import { diffLines } from 'diff';
+import { Range, TextEdit, WorkspaceEdit } from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { EditError } from '../types/errors.js';
+import { toFilePath } from './document.js';
+
+/**
+ * Returns edit indices ordered by start offset. Ties keep their original
+ * order, matching the stable sort used by TextDocument.applyEdits.
+ */
+function sortByOffset(document: TextDocument, edits: TextEdit[]): number[] {
+  return edits
+    .map((edit, index) => ({
+      index,
+      offset: document.offsetAt(edit.range.start),
+    }))
+    .sort((a, b) => a.offset - b.offset || a.index - b.index)
+    .map(({ index }) => index);
+}
+
+/**
+ * Gets the text each edit replaces in the original document
+ */
+export function getReplacedText(
+  document: TextDocument,
+  edits: TextEdit[]
+): string[] {
+  return edits.map((edit) => document.getText(edit.range));
+}
+
+/**
+ * Gets the range each edit occupies once all edits have been applied
+ * @param before Document the edits were applied to
+ * @param edits Edits in their original order
+ * @param after Document produced by applying the edits
+ */
+export function getAppliedRanges(
+  before: TextDocument,
+  edits: TextEdit[],
+  after: TextDocument
+): Range[] {
+  const ranges: Range[] = new Array(edits.length);
+  let delta = 0;
+
+  for (const index of sortByOffset(before, edits)) {
+    const edit = edits[index];
+    const start = before.offsetAt(edit.range.start);
+    const end = before.offsetAt(edit.range.end);
+    const newStart = start + delta;
+    const newEnd = newStart + edit.newText.length;
+
+    ranges[index] = Range.create(
+      after.positionAt(newStart),
+      after.positionAt(newEnd)
+    );
+    delta += edit.newText.length - (end - start);
+  }
+
+  return ranges;
+}
+
+/**
+ * Creates a function that maps ranges in a document to the matching ranges
+ * once edits have been applied. Positions inside an edited region move to
+ * the start of its replacement.
+ * @param before Document the edits were applied to
+ * @param edits Edits in their original order
+ * @param after Document produced by applying the edits
+ */
+export function createRangeMapper(
+  before: TextDocument,
+  edits: TextEdit[],
+  after: TextDocument
+): (range: Range) => Range {
+  const spans = sortByOffset(before, edits).map((index) => ({
+    start: before.offsetAt(edits[index].range.start),
+    end: before.offsetAt(edits[index].range.end),
+    length: edits[index].newText.length,
+  }));
+
+  const mapOffset = (offset: number): number => {
+    let delta = 0;
+    for (const span of spans) {
+      if (offset < span.end) {
+        return offset <= span.start ? offset + delta : span.start + delta;
+      }
+      delta += span.length - (span.end - span.start);
+    }
+    return offset + delta;
+  };
+
+  return (range) =>
+    Range.create(
+      after.positionAt(mapOffset(before.offsetAt(range.start))),
+      after.positionAt(mapOffset(before.offsetAt(range.end)))
+    );
+}
+
+/**
+ * Orders edits from the end of the document to the start so they can be
+ * sent as sequential LSP content changes without shifting each other
+ */
+export function sortEditsDescending(
+  document: TextDocument,
+  edits: TextEdit[]
+): TextEdit[] {
+  return sortByOffset(document, edits)
+    .reverse()
+    .map((index) => edits[index]);
+}
+
+/**
+ * Computes line-based edits that turn a document's text into new text
+ */
+export function computeTextEdits(
+  document: TextDocument,
+  newText: string
+): TextEdit[] {
+  const edits: TextEdit[] = [];
+  let offset = 0;
+
+  for (const part of diffLines(document.getText(), newText)) {
+    const start = document.positionAt(offset);
+
+    if (part.added) {
+      const previous = edits[edits.length - 1];
+      // Turn a removal directly followed by an addition into a replacement
+      if (
+        previous &&
+        previous.newText === '' &&
+        document.offsetAt(previous.range.end) === offset
+      ) {
+        previous.newText = part.value;
+      } else {
+        edits.push({ range: Range.create(start, start), newText: part.value });
+      }
+      continue;
+    }
+
+    offset += part.value.length;
+
+    if (part.removed) {
+      edits.push({
+        range: Range.create(start, document.positionAt(offset)),
+        newText: '',
+      });
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Splits workspace edits into the batches of text edits for each file,
+ * keeping the order in which they apply
+ * @throws {EditError} If an edit creates, renames or deletes files
+ */
+export function groupFileEdits(
+  workspaceEdits: WorkspaceEdit[]
+): Map<string, TextEdit[][]> {
+  const fileEdits = new Map<string, TextEdit[][]>();
+  const add = (uri: string, edits: TextEdit[]) => {
+    if (edits.length > 0) {
+      const filePath = toFilePath(uri);
+      fileEdits.set(filePath, [...(fileEdits.get(filePath) ?? []), edits]);
+    }
+  };
+
+  for (const workspaceEdit of workspaceEdits) {
+    for (const [uri, edits] of Object.entries(workspaceEdit.changes ?? {})) {
+      add(uri, edits);
+    }
+
+    for (const change of workspaceEdit.documentChanges ?? []) {
+      if (!('textDocument' in change)) {
+        throw new EditError(
+          `Workspace edits that ${change.kind} files are not supported`,
+          'UNSUPPORTED_OPERATION',
+          { change }
+        );
+      }
+      add(change.textDocument.uri, change.edits);
+    }
+  }
+
+  return fileEdits;
+}
@@ -0,0 +1,126 @@
+// src/utils/formatting.ts
+import { LanguageFormatOptions } from '../types/language.js';
+import { globToRegExp } from './search.js';
+
+/**
+ * Properties an .editorconfig file sets for a file
+ */
+export interface EditorConfigProperties {
+  /** Whether the file is marked `root = true`, ending the search upwards */
+  root: boolean;
+
+  /** Properties of the sections matching the file, lowercased */
+  properties: Record<string, string>;
+}
+
+/**
+ * Reads the properties an .editorconfig file sets for a file. Sections are
+ * applied in order, so later ones override earlier ones. As in .gitignore
+ * files, a section glob without a slash matches names at any depth, and one
+ * with a slash matches from the .editorconfig file's directory.
+ * @param content Text of the .editorconfig file
+ * @param relativePath `/`-separated path of the file from the .editorconfig
+ * file's directory
+ */
+export function parseEditorConfig(
+  content: string,
+  relativePath: string
+): EditorConfigProperties {
+  const result: EditorConfigProperties = { root: false, properties: {} };
+  let inPreamble = true;
+  let inMatchingSection = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+
+    const section = line.match(/^\[(.*)\]$/);
+    if (section) {
+      const glob = section[1];
+      inPreamble = false;
+      try {
+        inMatchingSection = globToRegExp(
+          glob.includes('/') ? glob.replace(/^\//, '') : `**/${glob}`
+        ).test(relativePath);
+      } catch {
+        inMatchingSection = false;
+      }
+      continue;
+    }
+
+    const property = line.match(/^([^=:]+?)\s*[=:]\s*(.*)$/);
+    if (!property) {
+      continue;
+    }
+
+    const [, key, value] = property;
+    if (inPreamble && key.toLowerCase() === 'root') {
+      result.root = value.toLowerCase() === 'true';
+    } else if (inMatchingSection) {
+      result.properties[key.toLowerCase()] = value.toLowerCase();
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Converts .editorconfig properties to formatting options
+ */
+export function editorConfigToFormatOptions(
+  properties: Record<string, string>
+): Partial<LanguageFormatOptions> {
+  const options: Partial<LanguageFormatOptions> = {};
+  const indentStyle = properties.indent_style;
+  if (indentStyle === 'space' || indentStyle === 'tab') {
+    options.insertSpaces = indentStyle === 'space';
+  }
+
+  // With tabs, the tab width is what a level of indentation looks like
+  const indentSize = Number(properties.indent_size);
+  const tabWidth = Number(properties.tab_width);
+  const tabSize =
+    options.insertSpaces === false
+      ? tabWidth || indentSize
+      : indentSize || tabWidth;
+  if (tabSize > 0) {
+    options.tabSize = tabSize;
+  }
+
+  for (const [key, name] of [
+    ['trim_trailing_whitespace', 'trimTrailingWhitespace'],
+    ['insert_final_newline', 'insertFinalNewline'],
+  ] as const) {
+    const value = properties[key];
+    if (value === 'true' || value === 'false') {
+      options[name] = value === 'true';
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Reads the indentation options of a resolved Prettier config
+ * @param config Prettier options for a file, with overrides applied
+ */
+export function parsePrettierConfig(
+  config: unknown
+): Partial<LanguageFormatOptions> {
+  const options: Partial<LanguageFormatOptions> = {};
+  if (!config || typeof config !== 'object') {
+    return options;
+  }
+
+  const { tabWidth, useTabs } = config as Record<string, unknown>;
+  if (typeof tabWidth === 'number' && tabWidth > 0) {
+    options.tabSize = tabWidth;
+  }
+  if (typeof useTabs === 'boolean') {
+    options.insertSpaces = !useTabs;
+  }
+
+  return options;
+}
@@ -3,11 +3,23 @@ import fs from 'fs/promises';
 import path from 'path';
 import { FileSystemError } from '../types/errors.js';
 
+export interface FileStats {
+  mtimeMs: number;
+  size: number;
+}
+
+export interface DirectoryEntry {
+  name: string;
+  isDirectory: boolean;
+}
+
 export interface FileSystemManager {
   readFile(path: string): Promise<string>;
+  stat(path: string): Promise<FileStats>;
   writeFile(path: string, content: string): Promise<void>;
   exists(path: string): Promise<boolean>;
   isDirectory(path: string): Promise<boolean>;
+  readDirectory(dir: string): Promise<DirectoryEntry[]>;
   validatePath(path: string, allowedDirs: string[]): Promise<string>;
   rename(oldPath: string, newPath: string): Promise<void>;
   unlink(path: string): Promise<void>;
@@ -36,6 +48,20 @@ export class LocalFileSystemManager implements FileSystemManager {
     }
   }
 
+  async stat(filePath: string): Promise<FileStats> {
+    await this.validatePath(filePath);
+    try {
+      const stats = await fs.stat(filePath);
+      return { mtimeMs: stats.mtimeMs, size: stats.size };
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to stat file: ${filePath}`,
+        'STAT_ERROR',
+        { path: filePath, error }
+      );
+    }
+  }
+
   async writeFile(filePath: string, content: string): Promise<void> {
     this.isInAllowedDirs(filePath);
     try {
@@ -111,6 +137,23 @@ export class LocalFileSystemManager implements FileSystemManager {
     }
   }
 
+  async readDirectory(dir: string): Promise<DirectoryEntry[]> {
+    await this.validatePath(dir);
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.map((entry) => ({
+        name: entry.name,
+        isDirectory: entry.isDirectory(),
+      }));
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to read directory: ${dir}`,
+        'READ_DIR_ERROR',
+        { dir, error }
+      );
+    }
+  }
+
   isInAllowedDirs(requestedPath: string) {
     // Normalize and resolve the requested path
     const resolvedPath = path.resolve(requestedPath);
@@ -178,7 +221,7 @@ export class LocalFileSystemManager implements FileSystemManager {
 
     // Check for symlinks
     try {
-      const realPath = await fs.realpath(resolvedPath);
+      const realPath = await this.resolveRealPath(resolvedPath);
 
       // Convert allowed dirs to resolved absolute paths
       const resolvedAllowedDirs = Array.from(this.allowedDirs).map((dir) =>
@@ -206,4 +249,26 @@ export class LocalFileSystemManager implements FileSystemManager {
       });
     }
   }
+
+  /**
+   * Resolves symlinks in a path. Paths that do not exist yet are resolved
+   * through their nearest existing ancestor.
+   */
+  private async resolveRealPath(resolvedPath: string): Promise<string> {
+    try {
+      return await fs.realpath(resolvedPath);
+    } catch (error) {
+      const parent = path.dirname(resolvedPath);
+      if (
+        (error as NodeJS.ErrnoException).code !== 'ENOENT' ||
+        parent === resolvedPath
+      ) {
+        throw error;
+      }
+      return path.join(
+        await this.resolveRealPath(parent),
+        path.basename(resolvedPath)
+      );
+    }
+  }
 }
@@ -0,0 +1,76 @@
+// src/utils/heritage.ts
+
+/**
+ * A type named in a class or interface's extends or implements clause
+ */
+export interface HeritageName {
+  /** Name as written, e.g. `Base` or `ns.Base` */
+  name: string;
+  /** Offset of the last segment of the name */
+  offset: number;
+}
+
+const OPENING_BRACKETS = new Set(['<', '(', '[', '{']);
+const CLOSING_BRACKETS = new Set(['>', ')', ']', '}']);
+
+/**
+ * Finds the types a class or interface declaration extends or implements,
+ * scanning its header from just after its name up to the brace opening its
+ * body. Type arguments and the declaration's own type parameters are
+ * skipped, so `class A<T extends X> extends B<C>` yields only `B`.
+ * @param text Source text
+ * @param start Offset just after the declaration's name
+ */
+export function findHeritageNames(text: string, start: number): HeritageName[] {
+  const names: HeritageName[] = [];
+  let depth = 0;
+  let inClause = false;
+  let expectName = false;
+
+  for (let offset = start; offset < text.length; offset++) {
+    const char = text[offset];
+
+    if (OPENING_BRACKETS.has(char)) {
+      if (char === '{' && depth === 0) {
+        break;
+      }
+      depth++;
+      continue;
+    }
+    if (CLOSING_BRACKETS.has(char)) {
+      // The `>` of an arrow in a type argument doesn't close a bracket
+      if (!(char === '>' && text[offset - 1] === '=')) {
+        depth = Math.max(0, depth - 1);
+      }
+      continue;
+    }
+    if (depth > 0) {
+      continue;
+    }
+
+    if (char === ',' && inClause) {
+      expectName = true;
+      continue;
+    }
+
+    const match = /^[\w$.]+/.exec(text.slice(offset, offset + 256));
+    if (!match || (offset > 0 && /[\w$]/.test(text[offset - 1]))) {
+      continue;
+    }
+
+    const word = match[0];
+    if (word === 'extends' || word === 'implements') {
+      inClause = true;
+      expectName = true;
+    } else if (expectName && inClause) {
+      names.push({
+        name: word,
+        offset: offset + word.lastIndexOf('.') + 1,
+      });
+      expectName = false;
+    }
+    offset += word.length - 1;
+  }
+
+  return names;
+}
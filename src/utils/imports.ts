@@ -0,0 +1,84 @@
+// src/utils/imports.ts
+
+/**
+ * An ES import declaration found in source text
+ */
+export interface ImportDeclarationInfo {
+  /** Offset of the `import` keyword */
+  start: number;
+  /** Offset just past the declaration, including its semicolon */
+  end: number;
+  moduleSpecifier: string;
+  typeOnly: boolean;
+  defaultImport?: string;
+  namespaceImport?: string;
+  /** Specifiers inside braces as written (e.g. `a as b`), if braces exist */
+  namedImports?: string[];
+  quote: string;
+  hasSemicolon: boolean;
+  multiline: boolean;
+}
+
+const IMPORT_PATTERN =
+  /^import\s+(?:(type\s+)?([^;'"]*?)\s*from\s*)?(['"])([^'"]+)\3(;?)/gm;
+
+/**
+ * Finds the import declarations at the start of lines in source text
+ */
+export function parseImports(text: string): ImportDeclarationInfo[] {
+  const imports: ImportDeclarationInfo[] = [];
+
+  for (const match of text.matchAll(IMPORT_PATTERN)) {
+    const [statement, typeKeyword, clause = '', quote, specifier, semicolon] =
+      match;
+    const braces = clause.match(/\{([^}]*)\}/);
+    const info: ImportDeclarationInfo = {
+      start: match.index!,
+      end: match.index! + statement.length,
+      moduleSpecifier: specifier,
+      typeOnly: !!typeKeyword,
+      quote,
+      hasSemicolon: semicolon === ';',
+      multiline: statement.includes('\n'),
+    };
+
+    if (braces) {
+      info.namedImports = braces[1]
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean);
+    }
+
+    for (const part of clause.replace(/\{[^}]*\}/, '').split(',')) {
+      const binding = part.trim();
+      if (binding.startsWith('*')) {
+        info.namespaceImport = binding.replace(/^\*\s*as\s+/, '');
+      } else if (binding) {
+        info.defaultImport = binding;
+      }
+    }
+
+    imports.push(info);
+  }
+
+  return imports;
+}
+
+/**
+ * Gets the local name bound by an import specifier such as `a as b`
+ */
+export function getLocalName(specifier: string): string {
+  const parts = specifier.replace(/^type\s+/, '').split(/\s+as\s+/);
+  return parts[parts.length - 1].trim();
+}
+
+/**
+ * Gets every local name bound by an import declaration
+ */
+export function getImportedNames(info: ImportDeclarationInfo): string[] {
+  return [
+    ...(info.defaultImport ? [info.defaultImport] : []),
+    ...(info.namespaceImport ? [info.namespaceImport] : []),
+    ...(info.namedImports ?? []).map(getLocalName),
+  ];
+}
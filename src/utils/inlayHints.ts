@@ -0,0 +1,55 @@
+// src/utils/inlayHints.ts
+import { InlayHint } from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { formatNumberedLines, getLines } from './document.js';
+
+/**
+ * Gets the text of a hint's label, which servers may split into parts
+ */
+function getHintText(hint: InlayHint): string {
+  return typeof hint.label === 'string'
+    ? hint.label
+    : hint.label.map((part) => part.value).join('');
+}
+
+/**
+ * Renders a span of lines with inlay hints written into the code where an
+ * editor would show them. Each hint is wrapped in a block comment so it
+ * can't be mistaken for the source. Lines are numbered with their 0-based
+ * line numbers.
+ * @param document Document the hints were given for
+ * @param hints Hints within the lines
+ * @param startLine First line to render (0-based, inclusive)
+ * @param endLine Last line to render (0-based, inclusive)
+ */
+export function renderInlayHints(
+  document: TextDocument,
+  hints: InlayHint[],
+  startLine: number,
+  endLine: number
+): string {
+  const lines = getLines(document, startLine, endLine);
+
+  // Insert from the end of each line so earlier columns stay valid
+  const sorted = [...hints].sort(
+    (a, b) =>
+      b.position.line - a.position.line ||
+      b.position.character - a.position.character
+  );
+
+  for (const hint of sorted) {
+    const index = hint.position.line - startLine;
+    if (index < 0 || index >= lines.length) {
+      continue;
+    }
+
+    const line = lines[index];
+    const column = Math.min(hint.position.character, line.length);
+    const text = `${hint.paddingLeft ? ' ' : ''}/*${getHintText(hint).trim()}*/${
+      hint.paddingRight ? ' ' : ''
+    }`;
+    lines[index] = line.slice(0, column) + text + line.slice(column);
+  }
+
+  return formatNumberedLines(lines, startLine);
+}
@@ -0,0 +1,154 @@
+// src/utils/outline.ts
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getLines } from './document.js';
+import { SYMBOL_KIND_NAMES } from './symbols.js';
+
+/** Rough size of a token, used to keep outlines within a budget */
+const CHARS_PER_TOKEN = 4;
+
+/** Longest declaration line shown before it is cut off */
+const MAX_SIGNATURE_LENGTH = 120;
+
+/**
+ * Symbols whose children are listed. Members of functions and variable
+ * initializers are locals, which would crowd out the declarations.
+ */
+const CONTAINER_KINDS: SymbolKind[] = [
+  SymbolKind.File,
+  SymbolKind.Module,
+  SymbolKind.Namespace,
+  SymbolKind.Package,
+  SymbolKind.Class,
+  SymbolKind.Interface,
+  SymbolKind.Enum,
+  SymbolKind.Struct,
+  SymbolKind.Object,
+];
+
+/**
+ * A symbol in the outline, with its place in the symbol tree
+ */
+interface OutlineNode {
+  parent?: OutlineNode;
+  children: OutlineNode[];
+  line: string;
+  shown: boolean;
+}
+
+/**
+ * Renders document symbols as an indented outline, one line per symbol.
+ * Only declarations are listed, not the locals of functions.
+ * Symbols are added level by level, so when the depth or token budget runs
+ * out the deepest levels collapse first, and each symbol whose children
+ * were left out reports how many are hidden.
+ * @param document Document the symbols belong to
+ * @param symbols Hierarchical symbols of the document
+ * @param depth Levels of nesting to show (default: all)
+ * @param maxTokens Approximate size of the outline, in tokens
+ */
+export function renderOutline(
+  document: TextDocument,
+  symbols: DocumentSymbol[],
+  depth: number = Infinity,
+  maxTokens: number = Infinity
+): { outline: string; symbolCount: number; shownCount: number } {
+  const roots = toNodes(document, symbols);
+
+  // Breadth-first, so whole levels are shown before any deeper one, and the
+  // first symbol that does not fit ends the outline
+  const budget = maxTokens * CHARS_PER_TOKEN;
+  let used = 0;
+  let shownCount = 0;
+  let symbolCount = 0;
+  let full = false;
+  let level = roots;
+  for (let current = 0; level.length > 0; current++) {
+    symbolCount += level.length;
+    for (const node of level) {
+      full ||= current >= depth || used + node.line.length + 1 > budget;
+      if (!full && (node.parent?.shown ?? true)) {
+        node.shown = true;
+        used += node.line.length + 1;
+        shownCount++;
+      }
+    }
+    level = level.flatMap((node) => node.children);
+  }
+
+  const lines: string[] = [];
+  const render = (nodes: OutlineNode[], indent: string): void => {
+    const shown = nodes.filter((node) => node.shown);
+    for (const node of shown) {
+      const collapsed =
+        node.children.length > 0 && !node.children.some((child) => child.shown);
+      lines.push(
+        `${indent}${node.line}${collapsed ? ` [+${node.children.length} hidden]` : ''}`
+      );
+      render(node.children, `${indent}  `);
+    }
+    // Symbols of a partly shown level are hidden from the end
+    if (shown.length > 0 && shown.length < nodes.length) {
+      lines.push(`${indent}[+${nodes.length - shown.length} hidden]`);
+    }
+  };
+  render(roots, '');
+
+  if (shownCount === 0 && roots.length > 0) {
+    lines.push(`[+${roots.length} hidden]`);
+  }
+
+  return { outline: lines.join('\n'), symbolCount, shownCount };
+}
+
+/**
+ * Builds outline nodes for symbols and their descendants, in document order
+ */
+function toNodes(
+  document: TextDocument,
+  symbols: DocumentSymbol[],
+  parent?: OutlineNode
+): OutlineNode[] {
+  return [...symbols]
+    .sort(
+      (a, b) =>
+        a.range.start.line - b.range.start.line ||
+        a.range.start.character - b.range.start.character
+    )
+    .map((symbol) => {
+      const node: OutlineNode = {
+        parent,
+        children: [],
+        line: describeSymbol(document, symbol),
+        shown: false,
+      };
+      if (CONTAINER_KINDS.includes(symbol.kind)) {
+        node.children = toNodes(document, symbol.children ?? [], node);
+      }
+      return node;
+    });
+}
+
+/**
+ * Describes a symbol as its kind, name, 0-based line range and declaration
+ */
+function describeSymbol(
+  document: TextDocument,
+  symbol: DocumentSymbol
+): string {
+  const { start, end } = symbol.range;
+  const kind = SYMBOL_KIND_NAMES.get(symbol.kind) ?? 'symbol';
+  const lines =
+    start.line === end.line ? `${start.line}` : `${start.line}-${end.line}`;
+
+  let signature = getLines(
+    document,
+    symbol.selectionRange.start.line,
+    symbol.selectionRange.start.line
+  )[0].trim();
+  if (signature.length > MAX_SIGNATURE_LENGTH) {
+    signature = `${signature.slice(0, MAX_SIGNATURE_LENGTH)}…`;
+  }
+
+  return `${kind} ${symbol.name} (${lines}): ${signature}`;
+}
@@ -0,0 +1,404 @@
+// src/utils/search.ts
+import path from 'path';
+import { Range } from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { FileSystemError } from '../types/errors.js';
+import { SourceLocation } from '../types/navigation.js';
+import { getExcerpt } from './document.js';
+import { DirectoryEntry, FileSystemManager } from './fs.js';
+
+/** Directories never searched, whatever the globs say */
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+/** Files larger than this are skipped as generated or binary */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/** Longest matched text reported before it is cut off */
+const MAX_MATCH_TEXT_LENGTH = 200;
+
+const DEFAULT_CONTEXT_LINES = 2;
+const DEFAULT_MAX_RESULTS = 50;
+
+/**
+ * What to search for, and where
+ */
+export interface TextSearchOptions {
+  /** Text to search for, or a regular expression if `isRegex` is set */
+  pattern: string;
+
+  /** Whether the pattern is a JavaScript regular expression */
+  isRegex?: boolean;
+
+  /** Whether letter case must match (default: true) */
+  caseSensitive?: boolean;
+
+  /**
+   * Globs a file must match to be searched, relative to the searched
+   * directory. A glob without a slash matches names at any depth.
+   */
+  include?: string[];
+
+  /** Globs of files and directories to skip, matched like `include` */
+  exclude?: string[];
+
+  /** Whether to skip what the directories' .gitignore files ignore (default: true) */
+  useGitignore?: boolean;
+
+  /** Lines of context around each match (default: 2) */
+  contextLines?: number;
+
+  /** Maximum number of matches to report (default: 50) */
+  maxResults?: number;
+}
+
+/**
+ * A match of the search pattern
+ */
+export interface TextMatch extends SourceLocation {
+  /** Text the pattern matched */
+  text: string;
+}
+
+/**
+ * Matches found by a text search
+ */
+export interface TextSearchResult {
+  /** Matches in path order, up to the requested limit */
+  matches: TextMatch[];
+
+  /** Number of files searched */
+  filesSearched: number;
+
+  /** Whether the search stopped at the limit, leaving matches unreported */
+  truncated: boolean;
+}
+
+/**
+ * A pattern from a .gitignore file
+ */
+interface IgnoreRule {
+  /** Directory of the .gitignore file, which the pattern is relative to */
+  base: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+interface SearchContext {
+  fs: FileSystemManager;
+  pattern: RegExp;
+  include: RegExp[];
+  exclude: RegExp[];
+  useGitignore: boolean;
+  contextLines: number;
+  maxResults: number;
+  readOpenFile: (filePath: string) => string | undefined;
+  visited: Set<string>;
+  result: TextSearchResult;
+}
+
+/**
+ * Converts a glob to a regular expression that matches whole paths with `/`
+ * separators. `*` and `?` match within a path segment and `**` across
+ * segments; `[abc]` and `{a,b}` match alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+
+    if (char === '*' && glob[index + 1] === '*') {
+      // `**/` also matches no directories at all
+      if (glob[index + 2] === '/') {
+        source += '(?:.*/)?';
+        index += 2;
+      } else {
+        source += '.*';
+        index++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', index + 2) !== -1) {
+      const end = glob.indexOf(']', index + 2);
+      const body = glob.slice(index + 1, end).replace(/\\/g, '\\\\');
+      source += `[${body.replace(/^!/, '^')}]`;
+      index = end;
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}${')'.repeat(braceDepth)}$`);
+}
+
+/**
+ * Searches the files under some directories for a literal or regular
+ * expression pattern. Files are visited in path order, skipping `.git`,
+ * `node_modules`, files over 1 MB and binary files. Files open in a session
+ * are searched in their current text, so match ranges can be passed to
+ * edit_code as they are.
+ * @param fs File system to read
+ * @param directories Validated directories to search
+ * @param options Pattern, globs and limits
+ * @param readOpenFile Gets the current text of a file open in a session
+ * @throws {FileSystemError} If the pattern or a glob is invalid, or one of
+ * the directories cannot be read
+ */
+export async function searchText(
+  fs: FileSystemManager,
+  directories: string[],
+  options: TextSearchOptions,
+  readOpenFile: (filePath: string) => string | undefined = () => undefined
+): Promise<TextSearchResult> {
+  const context: SearchContext = {
+    fs,
+    pattern: createSearchPattern(options),
+    include: (options.include ?? []).map(createPathMatcher),
+    exclude: (options.exclude ?? []).map(createPathMatcher),
+    useGitignore: options.useGitignore ?? true,
+    contextLines: options.contextLines ?? DEFAULT_CONTEXT_LINES,
+    maxResults: options.maxResults ?? DEFAULT_MAX_RESULTS,
+    readOpenFile,
+    visited: new Set(),
+    result: { matches: [], filesSearched: 0, truncated: false },
+  };
+
+  for (const directory of directories) {
+    if (!(await fs.isDirectory(directory))) {
+      throw new FileSystemError(
+        `Path is not a directory: ${directory}`,
+        'NOT_A_DIRECTORY',
+        { path: directory }
+      );
+    }
+    await searchDirectory(context, directory, directory, []);
+  }
+
+  return context.result;
+}
+
+function createSearchPattern(options: TextSearchOptions): RegExp {
+  const source = options.isRegex
+    ? options.pattern
+    : options.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  try {
+    // Multiline, so ^ and $ match at line breaks as in grep
+    return new RegExp(source, options.caseSensitive === false ? 'gim' : 'gm');
+  } catch (error) {
+    throw new FileSystemError(
+      `Invalid search pattern: ${options.pattern}`,
+      'INVALID_PATTERN',
+      { pattern: options.pattern, error: (error as Error).message }
+    );
+  }
+}
+
+/**
+ * Creates a test for `/`-separated paths relative to a directory. As in
+ * .gitignore files, a glob without a slash matches names at any depth, and
+ * one with a slash matches from the directory.
+ * @throws {FileSystemError} If the glob is invalid
+ */
+function createPathMatcher(glob: string): RegExp {
+  const pattern = glob.replace(/\/$/, '');
+
+  try {
+    return globToRegExp(
+      pattern.includes('/') ? pattern.replace(/^\//, '') : `**/${pattern}`
+    );
+  } catch (error) {
+    throw new FileSystemError(`Invalid glob: ${glob}`, 'INVALID_PATTERN', {
+      glob,
+      error: (error as Error).message,
+    });
+  }
+}
+
+async function searchDirectory(
+  context: SearchContext,
+  dir: string,
+  root: string,
+  inheritedRules: IgnoreRule[]
+): Promise<void> {
+  // Allowed directories may be nested in one another
+  if (context.visited.has(dir)) {
+    return;
+  }
+  context.visited.add(dir);
+
+  let entries: DirectoryEntry[];
+  try {
+    entries = await context.fs.readDirectory(dir);
+  } catch (error) {
+    // Like unreadable files, unreadable subdirectories are skipped
+    if (dir === root) {
+      throw error;
+    }
+    return;
+  }
+  entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  const rules = context.useGitignore
+    ? [...inheritedRules, ...(await readIgnoreRules(context.fs, dir, entries))]
+    : inheritedRules;
+
+  for (const entry of entries) {
+    if (context.result.truncated) {
+      return;
+    }
+
+    const entryPath = path.join(dir, entry.name);
+    const relativePath = path
+      .relative(root, entryPath)
+      .split(path.sep)
+      .join('/');
+    if (isIgnored(entryPath, entry.isDirectory, rules)) {
+      continue;
+    }
+
+    if (entry.isDirectory) {
+      // The trailing slash lets globs like `dist/**` skip the whole directory
+      if (
+        !SKIPPED_DIRECTORIES.has(entry.name) &&
+        !context.exclude.some(
+          (regex) => regex.test(relativePath) || regex.test(`${relativePath}/`)
+        )
+      ) {
+        await searchDirectory(context, entryPath, root, rules);
+      }
+    } else if (
+      !context.exclude.some((regex) => regex.test(relativePath)) &&
+      (context.include.length === 0 ||
+        context.include.some((regex) => regex.test(relativePath)))
+    ) {
+      await searchFile(context, entryPath);
+    }
+  }
+}
+
+/**
+ * Reads the rules of a directory's .gitignore file, if it has one
+ */
+async function readIgnoreRules(
+  fs: FileSystemManager,
+  dir: string,
+  entries: DirectoryEntry[]
+): Promise<IgnoreRule[]> {
+  if (!entries.some((entry) => entry.name === '.gitignore')) {
+    return [];
+  }
+
+  const content = await fs.readFile(path.join(dir, '.gitignore'));
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const negated = line.startsWith('!');
+    // A leading backslash escapes a literal # or !
+    const pattern = (negated ? line.slice(1) : line).replace(/^\\/, '');
+    try {
+      rules.push({
+        base: dir,
+        regex: createPathMatcher(pattern),
+        negated,
+        directoryOnly: pattern.endsWith('/'),
+      });
+    } catch {
+      // git skips patterns it can't parse too
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Checks a path against the .gitignore rules that apply to it. The last
+ * matching rule wins, so a negated rule can re-include a path.
+ */
+function isIgnored(
+  filePath: string,
+  isDirectory: boolean,
+  rules: IgnoreRule[]
+): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+
+    const relativePath = path
+      .relative(rule.base, filePath)
+      .split(path.sep)
+      .join('/');
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
+
+async function searchFile(
+  context: SearchContext,
+  filePath: string
+): Promise<void> {
+  let content = context.readOpenFile(filePath);
+
+  if (content === undefined) {
+    try {
+      if ((await context.fs.stat(filePath)).size > MAX_FILE_SIZE) {
+        return;
+      }
+      content = await context.fs.readFile(filePath);
+    } catch {
+      // Broken links and links out of the allowed directories are skipped
+      return;
+    }
+
+    if (content.includes('\0')) {
+      return;
+    }
+  }
+
+  context.result.filesSearched++;
+  let document: TextDocument | undefined;
+
+  for (const match of content.matchAll(context.pattern)) {
+    if (match[0].length === 0) {
+      continue;
+    }
+    if (context.result.matches.length === context.maxResults) {
+      context.result.truncated = true;
+      return;
+    }
+
+    document ??= TextDocument.create(filePath, 'plaintext', 0, content);
+    const range = Range.create(
+      document.positionAt(match.index),
+      document.positionAt(match.index + match[0].length)
+    );
+
+    context.result.matches.push({
+      filePath,
+      range,
+      excerpt: getExcerpt(document, range, context.contextLines),
+      text: match[0].slice(0, MAX_MATCH_TEXT_LENGTH),
+    });
+  }
+}
@@ -0,0 +1,86 @@
+// src/utils/symbols.ts
+import {
+  DocumentSymbol,
+  Position,
+  Range,
+  SymbolInformation,
+  SymbolKind,
+  WorkspaceSymbol,
+} from 'vscode-languageserver-protocol';
+
+export const SYMBOL_KIND_NAMES = new Map(
+  Object.entries(SymbolKind).map(([name, kind]) => [kind, name.toLowerCase()])
+);
+
+/**
+ * Normalizes a documentSymbol response to hierarchical symbols. Servers
+ * without hierarchical support return flat SymbolInformation entries,
+ * which become childless symbols.
+ */
+export function toDocumentSymbols(
+  result: DocumentSymbol[] | SymbolInformation[] | null | undefined
+): DocumentSymbol[] {
+  if (!Array.isArray(result)) {
+    return [];
+  }
+
+  return result.map((symbol) =>
+    'location' in symbol
+      ? {
+          name: symbol.name,
+          kind: symbol.kind,
+          range: symbol.location.range,
+          selectionRange: symbol.location.range,
+          children: [],
+        }
+      : symbol
+  );
+}
+
+/**
+ * Normalizes a workspace/symbol response to symbols with ranges. Servers may
+ * leave out the range of a WorkspaceSymbol until it is resolved, in which
+ * case the symbol points at the start of its file.
+ */
+export function toSymbolInformation(
+  result: SymbolInformation[] | WorkspaceSymbol[] | null | undefined
+): SymbolInformation[] {
+  if (!Array.isArray(result)) {
+    return [];
+  }
+
+  return result.map((symbol) => ({
+    name: symbol.name,
+    kind: symbol.kind,
+    containerName: symbol.containerName,
+    location: {
+      uri: symbol.location.uri,
+      range:
+        'range' in symbol.location
+          ? symbol.location.range
+          : Range.create(0, 0, 0, 0),
+    },
+  }));
+}
+
+/**
+ * Finds the innermost symbol enclosing a range, other than a symbol
+ * declared at exactly that range
+ */
+export function findEnclosingSymbol(
+  symbols: DocumentSymbol[],
+  range: Range
+): DocumentSymbol | undefined {
+  const before = (a: Position, b: Position) =>
+    a.line < b.line || (a.line === b.line && a.character < b.character);
+  const encloses = (symbol: DocumentSymbol) =>
+    !before(range.start, symbol.range.start) &&
+    !before(symbol.range.end, range.end) &&
+    (before(symbol.range.start, range.start) ||
+      before(range.end, symbol.range.end));
+
+  const symbol = symbols.find(encloses);
+  return (
+    symbol && (findEnclosingSymbol(symbol.children ?? [], range) ?? symbol)
+  );
+}